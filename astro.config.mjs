@@ -2,6 +2,8 @@
 import { defineConfig } from 'astro/config';
 import tailwindcss from '@tailwindcss/vite';
 import preact from '@astrojs/preact';
+import contentValidation from './src/integrations/validateContent.ts';
+import serviceWorker from './src/integrations/serviceWorker.ts';
 
 export default defineConfig({
   site: 'https://kristery.github.io',
@@ -10,5 +12,5 @@ export default defineConfig({
   vite: {
     plugins: [tailwindcss()]
   },
-  integrations: [preact({ compat: true })]
+  integrations: [preact({ compat: true }), contentValidation(), serviceWorker()]
 });
@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+/**
+ * Generates pronunciation clips for vocab items, flashcards and dialogue lines
+ * with a local TTS engine, writes them to public/audio/ and records the path in
+ * each item's "audio" field. Items that already have "audio" (a recorded file
+ * or an earlier run) are left alone; delete the field to regenerate a clip.
+ *
+ * Usage:
+ *   npm run audio -- [--engine=say|espeak-ng] [--command="tts {text} -o {out}" --ext=wav]
+ *                    [--dry-run] [ch1/unit10 ...]
+ *
+ * Engines:
+ *   say        macOS, Kyoko voice, writes .m4a
+ *   espeak-ng  Linux/Windows, "ja" voice, writes .wav
+ *   --command  any other engine; {text} and {out} are substituted (shell-quoted)
+ */
+
+import { execFileSync, execSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const DATA_DIR = path.join(ROOT, 'src', 'data');
+const PUBLIC_DIR = path.join(ROOT, 'public');
+
+// ─── Options ────────────────────────────────────────────────────────────────
+
+const args = process.argv.slice(2);
+const option = (name) => args.find((a) => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+const dryRun = args.includes('--dry-run');
+const only = args.filter((a) => !a.startsWith('--'));
+
+const engines = {
+  say: {
+    ext: 'm4a',
+    run: (text, out) => execFileSync('say', ['-v', 'Kyoko', '--file-format=m4af', '--data-format=aac', '-o', out, text]),
+  },
+  'espeak-ng': {
+    ext: 'wav',
+    run: (text, out) => execFileSync('espeak-ng', ['-v', 'ja', '-w', out, text]),
+  },
+};
+
+const quote = (s) => `'${s.replace(/'/g, `'\\''`)}'`;
+const command = option('command');
+const engine = command
+  ? { ext: option('ext') || 'wav', run: (text, out) => execSync(command.replaceAll('{text}', quote(text)).replaceAll('{out}', quote(out))) }
+  : engines[option('engine') || (process.platform === 'darwin' ? 'say' : 'espeak-ng')];
+
+if (!engine) {
+  console.error(`Unknown engine "${option('engine')}". Use one of: ${Object.keys(engines).join(', ')} or --command.`);
+  process.exit(1);
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+// Speak furigana readings rather than letting the engine guess kanji
+// (mirrors toKana in src/lib/furigana.ts)
+const toKana = (s) => s.replace(/\{([^{}|]+)\|([^{}|]+)\}/g, '$2');
+
+function discoverUnitFiles() {
+  const files = [];
+  for (const ch of readdirSync(DATA_DIR).filter((d) => /^ch\d+$/.test(d))) {
+    for (const unit of readdirSync(path.join(DATA_DIR, ch)).filter((f) => /^unit\d+\.json$/.test(f))) {
+      const key = `${ch}/${unit.replace('.json', '')}`;
+      if (only.length === 0 || only.includes(key)) files.push({ key, file: path.join(DATA_DIR, ch, unit) });
+    }
+  }
+  return files;
+}
+
+/** Speakable items in a unit: where the item sits in the file and the text to synthesise. */
+function collectItems(data) {
+  const items = [];
+  data.sections.forEach((section, i) => {
+    for (const field of ['items', 'cards']) {
+      (section[field] || []).forEach((item, j) => items.push({ item, path: `sections/${i}/${field}/${j}`, speak: item.reading }));
+    }
+    (section.lines || []).forEach((line, j) => items.push({ item: line, path: `sections/${i}/lines/${j}`, speak: toKana(line.japanese) }));
+  });
+  return items;
+}
+
+// Offsets of every object member in a JSON source, keyed by path
+// (e.g. `sections/2/items/0/japanese`), so an edit lands in one item's own
+// object even when another item elsewhere has the same text.
+function memberOffsets(source) {
+  const offsets = new Map();
+  let i = 0;
+  const skipSpace = () => {
+    while (/\s/.test(source[i])) i++;
+  };
+  const string = () => {
+    const start = i++;
+    while (source[i] !== '"') i += source[i] === '\\' ? 2 : 1;
+    return JSON.parse(source.slice(start, ++i));
+  };
+  const value = (path) => {
+    skipSpace();
+    if (source[i] === '{' || source[i] === '[') {
+      const isObject = source[i++] === '{';
+      for (let index = 0; ; index++) {
+        // Whitespace between the previous member and this one, reused for an inserted member
+        const gapStart = i;
+        skipSpace();
+        if (source[i] === '}' || source[i] === ']') break;
+        const keyStart = i;
+        const key = isObject ? string() : index;
+        if (isObject) {
+          skipSpace();
+          i++; // ':'
+        }
+        const member = `${path}/${key}`;
+        value(member);
+        offsets.set(member, { gap: source.slice(gapStart, keyStart), end: i });
+        skipSpace();
+        if (source[i] === ',') i++;
+      }
+      i++;
+    } else if (source[i] === '"') {
+      string();
+    } else {
+      while (i < source.length && !/[\s,\]}]/.test(source[i])) i++;
+    }
+  };
+  value('');
+  return offsets;
+}
+
+// Insert `"audio": "…"` right after the item's "japanese" value, spaced like
+// its other members (inline objects stay inline, multi-line stay multi-line).
+function insertAudioFields(source, edits) {
+  const offsets = memberOffsets(source);
+  const inserts = edits.map(({ path, audio }) => {
+    const { gap, end } = offsets.get(`/${path}/japanese`);
+    return { at: end, text: `,${gap}"audio": ${JSON.stringify(audio)}` };
+  });
+  // Back to front, so earlier offsets stay valid
+  for (const { at, text } of inserts.sort((a, b) => b.at - a.at)) {
+    source = source.slice(0, at) + text + source.slice(at);
+  }
+  return source;
+}
+
+// ─── Run ────────────────────────────────────────────────────────────────────
+
+let generated = 0;
+let skipped = 0;
+// Clips this run makes (or would make), so shared text is counted once
+const clips = new Set();
+
+for (const { key, file } of discoverUnitFiles()) {
+  const source = readFileSync(file, 'utf-8');
+  const edits = [];
+
+  for (const { item, path: itemPath, speak } of collectItems(JSON.parse(source))) {
+    if (!speak) continue;
+    if (item.audio) {
+      skipped++;
+      continue;
+    }
+
+    const hash = createHash('sha1').update(speak).digest('hex').slice(0, 10);
+    const audio = `audio/${key}/${hash}.${engine.ext}`;
+    const out = path.join(PUBLIC_DIR, audio);
+    console.log(`${key}  ${speak}  →  ${audio}`);
+
+    // The same text elsewhere in the unit shares the clip
+    if (!existsSync(out) && !clips.has(out)) {
+      clips.add(out);
+      generated++;
+      if (!dryRun) {
+        mkdirSync(path.dirname(out), { recursive: true });
+        engine.run(speak, out);
+      }
+    }
+    if (!dryRun) edits.push({ path: itemPath, audio });
+  }
+
+  if (edits.length > 0) {
+    const updated = insertAudioFields(source, edits);
+    JSON.parse(updated);
+    writeFileSync(file, updated);
+  }
+}
+
+console.log(`\n${dryRun ? 'Would generate' : 'Generated'} ${generated} clip(s), skipped ${skipped} with existing audio.`);
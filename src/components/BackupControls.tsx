@@ -0,0 +1,60 @@
+import { useState } from 'preact/hooks';
+import { downloadBackup, mergeBackup, parseBackup } from '../lib/backup';
+
+type Status = { kind: 'success' | 'error'; message: string } | null;
+
+export default function BackupControls() {
+  const [status, setStatus] = useState<Status>(null);
+
+  const handleImport = async (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error('檔案不是有效的 JSON');
+      }
+      const summary = mergeBackup(parseBackup(raw));
+      setStatus({
+        kind: 'success',
+        message: `匯入完成：${summary.units} 個單元、新增 ${summary.attempts} 筆測驗紀錄、更新 ${summary.cards} 張單字卡、${summary.notes} 則筆記、${summary.phrases} 句收藏`,
+      });
+    } catch (err) {
+      setStatus({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <section class="bg-white rounded-2xl border p-5" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <h2 class="text-base font-bold mb-1" style={{ color: '#3D3229' }}>💾 備份與還原</h2>
+      <p class="text-xs mb-4" style={{ color: '#9B8B7E' }}>
+        學習紀錄只存在這個瀏覽器裡。匯出成檔案，就能在手機和電腦之間搬移，或在清除網站資料後還原。
+      </p>
+      <div class="flex flex-wrap gap-3">
+        <button
+          onClick={downloadBackup}
+          class="px-5 py-2.5 rounded-xl text-sm font-medium text-white transition-colors"
+          style={{ background: '#5BA87A' }}
+        >
+          匯出備份檔
+        </button>
+        <label
+          class="px-5 py-2.5 rounded-xl text-sm font-medium transition-colors cursor-pointer"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          匯入備份檔
+          <input type="file" accept="application/json,.json" class="hidden" onChange={handleImport} />
+        </label>
+      </div>
+      {status && (
+        <p class="text-sm mt-3" style={{ color: status.kind === 'success' ? '#3D8B6E' : '#E85D5D' }}>
+          {status.kind === 'success' ? '✅ ' : '⚠️ '}{status.message}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'preact/hooks';
+import { bestAttempt, loadProgress, subscribe } from '../lib/progress';
+import type { ProgressStore } from '../lib/progress';
+
+interface Props {
+  /** One key for a unit badge, every unit in the chapter for a chapter badge. */
+  unitKeys: string[];
+  variant: 'chapter' | 'unit';
+}
+
+export default function CompletionBadge({ unitKeys, variant }: Props) {
+  const [store, setStore] = useState<ProgressStore | null>(null);
+
+  useEffect(() => {
+    setStore(loadProgress());
+    return subscribe(setStore);
+  }, []);
+
+  if (!store) return null;
+
+  if (variant === 'unit') {
+    const unit = store.units[unitKeys[0]];
+    if (!unit?.completed) return null;
+    const best = bestAttempt(unit, 0);
+    return (
+      <span class="text-xs px-2 py-0.5 rounded-full font-medium" style={{ background: '#F0FAF4', color: '#3D8B6E' }}>
+        ✓ 已完成{best?.total ? `・最佳 ${best.score}/${best.total}` : ''}
+      </span>
+    );
+  }
+
+  const done = unitKeys.filter((key) => store.units[key]?.completed).length;
+  if (done === 0) return null;
+  const percentage = Math.round((done / unitKeys.length) * 100);
+
+  return (
+    <span class="inline-flex items-center gap-1.5 text-xs font-medium" style={{ color: '#3D8B6E' }}>
+      <span class="w-12 h-1.5 rounded-full overflow-hidden" style={{ background: '#E8DDD4' }}>
+        <span class="block h-full rounded-full" style={{ width: `${percentage}%`, background: '#5BA87A' }} />
+      </span>
+      {done === unitKeys.length ? '✓ 全部完成' : `${done}/${unitKeys.length} 完成`}
+    </span>
+  );
+}
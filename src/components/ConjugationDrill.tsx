@@ -0,0 +1,205 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import {
+  ADJECTIVE_FORMS,
+  VERB_FORMS,
+  VERB_GROUP_LABELS,
+  checkConjugation,
+  conjugate,
+  nextConjugationQuestion,
+} from '../lib/conjugation';
+import type { ConjugatableWord, ConjugationForm, ConjugationQuestion } from '../lib/conjugation';
+import { kanaToRomaji } from '../lib/kana';
+import { recordActivity } from '../lib/progress';
+
+type Focus = 'verb' | 'adjective';
+
+interface Props {
+  title: string;
+  /** Tagged verbs and adjectives from across the course */
+  words: ConjugatableWord[];
+  focus: Focus;
+}
+
+const focusLabels: Record<Focus, string> = { verb: '動詞', adjective: '形容詞' };
+const posLabels: Record<ConjugatableWord['pos'], string> = { verb: '動詞', 'i-adjective': 'い形容詞', 'na-adjective': 'な形容詞' };
+const formsByFocus = { verb: VERB_FORMS, adjective: ADJECTIVE_FORMS };
+
+// Streak after which the learner can call the drill done
+const FLUENT_STREAK = 10;
+const jpFont = "'Noto Sans JP', sans-serif";
+
+export default function ConjugationDrill({ title, words, focus: initialFocus }: Props) {
+  const [focus, setFocus] = useState<Focus>(initialFocus);
+  const [forms, setForms] = useState<ConjugationForm[]>(formsByFocus[initialFocus].map((f) => f.value));
+  const [question, setQuestion] = useState<ConjugationQuestion | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<boolean | null>(null);
+  const [showGroup, setShowGroup] = useState(false);
+  const [tally, setTally] = useState({ correct: 0, total: 0, streak: 0, best: 0 });
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pending = useRef<ReturnType<typeof setTimeout>>();
+
+  const wordsFor = (f: Focus) => words.filter((w) => (f === 'verb' ? w.pos === 'verb' : w.pos !== 'verb'));
+
+  const next = (f = focus, selected = forms, previous = question, focusInput = true) => {
+    clearTimeout(pending.current);
+    setQuestion(nextConjugationQuestion(wordsFor(f), selected, previous ?? undefined));
+    setAnswer('');
+    setResult(null);
+    if (focusInput) inputRef.current?.focus();
+  };
+
+  // Picked on the client so the server-rendered page doesn't fix the first word
+  useEffect(() => next(focus, forms, null, false), []);
+
+  const chooseFocus = (f: Focus) => {
+    const all = formsByFocus[f].map((o) => o.value);
+    setFocus(f);
+    setForms(all);
+    setTally({ correct: 0, total: 0, streak: 0, best: 0 });
+    next(f, all, null);
+  };
+
+  const toggleForm = (form: ConjugationForm) => {
+    const selected = forms.includes(form) ? forms.filter((f) => f !== form) : [...forms, form];
+    // At least one form stays on
+    if (selected.length === 0) return;
+    setForms(selected);
+    if (question && !selected.includes(question.form)) next(focus, selected);
+  };
+
+  const submit = (e: Event) => {
+    e.preventDefault();
+    if (!question) return;
+    if (result !== null) {
+      next();
+      return;
+    }
+    if (!answer.trim()) return;
+    const correct = checkConjugation(question.word, question.form, answer);
+    setResult(correct);
+    recordActivity();
+    setTally((t) => {
+      const streak = correct ? t.streak + 1 : 0;
+      return { correct: t.correct + (correct ? 1 : 0), total: t.total + 1, streak, best: Math.max(t.best, streak) };
+    });
+    // Right answers move straight on; wrong ones wait for Enter
+    if (correct) pending.current = setTimeout(() => next(), 900);
+  };
+
+  const formLabel = (form: ConjugationForm) => formsByFocus[focus].find((f) => f.value === form)?.label;
+  const solution = question && conjugate(question.word, question.form);
+
+  return (
+    <section class="my-10">
+      <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
+        <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#E8F4EC' }}>🔁</span>
+        {title}
+        <span class="ml-auto text-xs font-normal" style={{ color: '#9B8B7E' }}>
+          {tally.total > 0 && `答對 ${tally.correct} / ${tally.total}・連續 ${tally.streak}`}
+        </span>
+      </h2>
+
+      <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <div class="flex flex-wrap items-center gap-2 mb-3">
+          {(['verb', 'adjective'] as const).map((f) => (
+            <button
+              key={f}
+              onClick={() => chooseFocus(f)}
+              class="px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+              style={focus === f ? { background: '#5BA87A', color: '#fff' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+            >
+              {focusLabels[f]}
+              <span class="ml-1 text-xs opacity-75">{wordsFor(f).length}</span>
+            </button>
+          ))}
+        </div>
+        <div class="flex flex-wrap gap-2 mb-6">
+          {formsByFocus[focus].map((f) => (
+            <button
+              key={f.value}
+              onClick={() => toggleForm(f.value)}
+              aria-pressed={forms.includes(f.value)}
+              class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+              style={forms.includes(f.value) ? { background: '#5BA87A', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        {!question ? (
+          <p class="text-center text-sm py-8" style={{ color: '#9B8B7E' }}>目前的課程裡還沒有可以練習的{focusLabels[focus]}。</p>
+        ) : (
+          <>
+            <div class="text-center mb-6">
+              <p class="text-xs mb-1" style={{ color: '#9B8B7E' }} lang="ja">{question.word.reading}</p>
+              <p class="text-4xl font-medium" style={{ color: '#3D3229', fontFamily: jpFont }} lang="ja">
+                {question.word.japanese}
+              </p>
+              <p class="text-sm mt-2" style={{ color: '#6B5B4E' }}>
+                {question.word.chinese}
+                <span class="ml-2 text-xs" style={{ color: '#9B8B7E' }}>{posLabels[question.word.pos]}</span>
+              </p>
+              <p class="inline-block mt-4 px-4 py-1.5 rounded-full text-sm font-semibold" style={{ background: '#FFF3D6', color: '#3D3229' }}>
+                → {formLabel(question.form)}
+              </p>
+              {question.word.verbGroup && (
+                <div class="mt-2">
+                  <button onClick={() => setShowGroup(!showGroup)} class="text-xs hover:underline" style={{ color: '#9B8B7E' }}>
+                    {showGroup ? VERB_GROUP_LABELS[question.word.verbGroup] : '提示：動詞分類'}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <form onSubmit={submit} class="flex gap-2">
+              <input
+                ref={inputRef}
+                value={answer}
+                onInput={(e) => setAnswer((e.target as HTMLInputElement).value)}
+                readOnly={result !== null}
+                autocomplete="off"
+                autocapitalize="off"
+                spellcheck={false}
+                placeholder="輸入變化後的形式（漢字、假名或羅馬拼音）"
+                class="flex-1 min-w-0 px-4 py-3 rounded-xl border text-base outline-none"
+                style={{
+                  borderColor: result === null ? '#E8DDD4' : result ? '#5BA87A' : '#E85D5D',
+                  background: result === null ? '#fff' : result ? '#F0FAF4' : '#FFF5F5',
+                  color: '#3D3229',
+                  fontFamily: jpFont,
+                }}
+              />
+              <button type="submit" class="px-5 rounded-xl text-sm font-medium text-white shrink-0" style={{ background: '#5BA87A' }}>
+                {result === null ? '確定' : '下一題'}
+              </button>
+            </form>
+
+            {result !== null && solution && (
+              <div class="mt-4 p-4 rounded-xl text-sm" style={{ background: result ? '#F0FAF4' : '#FFF5F5' }}>
+                <p class="font-semibold mb-1" style={{ color: result ? '#5BA87A' : '#E85D5D' }}>{result ? '✓ 正確！' : '✗ 再看一次'}</p>
+                <p style={{ color: '#6B5B4E' }}>
+                  <span style={{ fontFamily: jpFont }} lang="ja">{question.word.japanese}</span>
+                  {' → '}
+                  <span class="font-semibold" style={{ fontFamily: jpFont, color: '#3D3229' }} lang="ja">{solution.japanese}</span>
+                  {solution.reading !== solution.japanese && (
+                    <span class="ml-1" style={{ fontFamily: jpFont }} lang="ja">（{solution.reading}）</span>
+                  )}
+                  <span class="romaji ml-2">{kanaToRomaji(solution.reading)}</span>
+                </p>
+                {question.word.verbGroup && <p class="text-xs mt-1" style={{ color: '#9B8B7E' }}>{VERB_GROUP_LABELS[question.word.verbGroup]}</p>}
+              </div>
+            )}
+          </>
+        )}
+
+        {tally.best >= FLUENT_STREAK && (
+          <p class="text-center text-sm mt-4" style={{ color: '#5BA87A' }}>
+            🎉 已經連續答對 {tally.best} 題，{focusLabels[focus]}變化你已經很熟練了！
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'preact/hooks';
+import { loadProgress, resumePoint, subscribe } from '../lib/progress';
+import type { ProgressStore } from '../lib/progress';
+
+interface PathUnit {
+  key: string;
+  title: string;
+  chapterId: number;
+  unitIndex: number;
+  href: string;
+}
+
+interface Props {
+  /** Every unit in course order */
+  path: PathUnit[];
+  baseUrl: string;
+}
+
+const HEADINGS = {
+  continue: '上次學到這裡',
+  next: '下一個單元',
+  start: '從這裡開始',
+};
+
+export default function ContinueLearning({ path, baseUrl }: Props) {
+  const [store, setStore] = useState<ProgressStore | null>(null);
+
+  useEffect(() => {
+    setStore(loadProgress());
+    return subscribe(setStore);
+  }, []);
+
+  if (!store) return null;
+  const point = resumePoint(store, path.map((u) => u.key));
+  const unit = point && path.find((u) => u.key === point.key);
+
+  if (!unit) {
+    return (
+      <a href={`${baseUrl}review`} class="block max-w-md mx-auto mt-8 bg-white rounded-2xl border p-4 text-left card-hover" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <div class="text-xs font-medium mb-1" style={{ color: '#5BA87A' }}>🎉 全部單元都完成了！</div>
+        <div class="text-sm" style={{ color: '#3D3229' }}>到每日複習把單字記得更牢 →</div>
+      </a>
+    );
+  }
+
+  return (
+    <a href={unit.href} class="block max-w-md mx-auto mt-8 bg-white rounded-2xl border p-4 text-left card-hover" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="text-xs font-medium mb-1" style={{ color: '#5BA87A' }}>
+        {point.reason === 'continue' ? '▶' : '→'} {HEADINGS[point.reason]}・第 {unit.chapterId} 章 單元 {unit.unitIndex + 1}
+      </div>
+      <div class="font-semibold truncate" style={{ color: '#3D3229' }}>{unit.title}</div>
+    </a>
+  );
+}
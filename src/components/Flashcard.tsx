@@ -1,23 +1,74 @@
-import { useState } from 'preact/hooks';
+import { useState, useEffect } from 'preact/hooks';
+import { GRADES, formatInterval, gradeCard, isDue, loadDeck, schedule } from '../lib/srs';
+import type { CardState, Grade } from '../lib/srs';
+import { recordActivity } from '../lib/progress';
+import { audioUrl, playAudio } from '../lib/audio';
+import { normalizeAnswer } from '../lib/kana';
 
 interface Card {
+  id: string;
   japanese: string;
   reading: string;
   romaji: string;
   chinese: string;
+  audio?: string;
 }
 
 interface Props {
   cards: Card[];
 }
 
+type Direction = 'jp-zh' | 'zh-jp' | 'reading-kanji';
+
+const directions: { value: Direction; label: string; prompt: string }[] = [
+  { value: 'jp-zh', label: '日 → 中', prompt: '輸入中文意思' },
+  { value: 'zh-jp', label: '中 → 日', prompt: '輸入日文（假名或羅馬拼音）' },
+  { value: 'reading-kanji', label: '讀音 → 漢字', prompt: '輸入日文寫法' },
+];
+
+function checkAnswer(card: Card, direction: Direction, answer: string): boolean {
+  if (direction === 'jp-zh') {
+    // Any one of the listed meanings counts: 「拍（照片）」 accepts 拍 or 拍照片
+    const input = answer.trim();
+    const meanings = [card.chinese, card.chinese.replace(/[（(）)]/g, ''), ...card.chinese.split(/[、，,／/；;（(）)]/)];
+    return input !== '' && meanings.some((m) => m.trim() === input);
+  }
+  const input = normalizeAnswer(answer);
+  if (input === '') return false;
+  if (direction === 'reading-kanji') return input === normalizeAnswer(card.japanese);
+  return [card.japanese, card.reading, card.romaji].some((expected) => normalizeAnswer(expected) === input);
+}
+
+const gradeLabels: Record<Grade, { label: string; color: string; bg: string }> = {
+  again: { label: '重來', color: '#E85D5D', bg: '#FFF5F5' },
+  hard: { label: '困難', color: '#D4A853', bg: '#FFFBF0' },
+  good: { label: '良好', color: '#5BA87A', bg: '#F0FAF4' },
+  easy: { label: '簡單', color: '#4A90C2', bg: '#EEF6FC' },
+};
+
 export default function Flashcard({ cards }: Props) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [touchStart, setTouchStart] = useState<number | null>(null);
+  const [deck, setDeck] = useState<Record<string, CardState>>({});
+  const [direction, setDirection] = useState<Direction>('jp-zh');
+  const [typed, setTyped] = useState(false);
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setDeck(loadDeck());
+  }, []);
 
   const card = cards[currentIndex];
   const total = cards.length;
+  const cardState = deck[card.id];
+  const dueCount = cards.filter((c) => isDue(deck[c.id])).length;
+
+  useEffect(() => {
+    setAnswer('');
+    setResult(null);
+  }, [currentIndex, direction, typed]);
 
   const goNext = () => {
     if (currentIndex < total - 1) {
@@ -33,6 +84,23 @@ export default function Flashcard({ cards }: Props) {
     }
   };
 
+  const grade = (g: Grade) => {
+    const next = gradeCard(card.id, g);
+    recordActivity();
+    setDeck({ ...deck, [card.id]: next });
+    if (currentIndex < total - 1) {
+      goNext();
+    } else {
+      setIsFlipped(false);
+    }
+  };
+
+  const submitAnswer = (e: Event) => {
+    e.preventDefault();
+    setResult(checkAnswer(card, direction, answer));
+    setIsFlipped(true);
+  };
+
   const handleTouchStart = (e: TouchEvent) => {
     setTouchStart(e.touches[0].clientX);
   };
@@ -52,9 +120,33 @@ export default function Flashcard({ cards }: Props) {
       <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
         <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#D4EDDA' }}>🃏</span>
         翻牌練習
+        <span class="ml-auto text-xs font-normal" style={{ color: '#9B8B7E' }}>
+          待複習 {dueCount} / {total}
+        </span>
       </h2>
 
       <div class="flex flex-col items-center">
+        {/* Mode */}
+        <div class="flex flex-wrap items-center justify-center gap-2 mb-4">
+          {directions.map((d) => (
+            <button
+              key={d.value}
+              onClick={() => { setDirection(d.value); setIsFlipped(false); }}
+              class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+              style={direction === d.value ? { background: '#5BA87A', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+            >
+              {d.label}
+            </button>
+          ))}
+          <button
+            onClick={() => { setTyped(!typed); setIsFlipped(false); }}
+            class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+            style={typed ? { background: '#D4A853', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            ⌨️ 打字作答
+          </button>
+        </div>
+
         {/* Card */}
         <div
           class="flip-card w-full max-w-sm cursor-pointer select-none"
@@ -72,13 +164,29 @@ export default function Flashcard({ cards }: Props) {
                 border: '1px solid rgba(168, 213, 186, 0.5)',
               }}
             >
-              <span class="text-4xl font-medium mb-2" style={{ fontFamily: "'Noto Sans JP', sans-serif", color: '#3D3229' }}>
-                {card.japanese}
-              </span>
-              <span class="text-lg" style={{ fontFamily: "'Noto Sans JP', sans-serif", color: '#5BA87A' }}>
-                {card.reading}
+              {direction === 'jp-zh' && (
+                <>
+                  <span class="text-4xl font-medium mb-2" style={{ fontFamily: "'Noto Sans JP', sans-serif", color: '#3D3229' }}>
+                    {card.japanese}
+                  </span>
+                  <span class="text-lg" style={{ fontFamily: "'Noto Sans JP', sans-serif", color: '#5BA87A' }}>
+                    {card.reading}
+                  </span>
+                </>
+              )}
+              {direction === 'zh-jp' && (
+                <span class="text-3xl font-bold" style={{ color: '#3D3229' }}>
+                  {card.chinese}
+                </span>
+              )}
+              {direction === 'reading-kanji' && (
+                <span class="text-4xl font-medium" style={{ fontFamily: "'Noto Sans JP', sans-serif", color: '#5BA87A' }}>
+                  {card.reading}
+                </span>
+              )}
+              <span class="text-xs mt-4" style={{ color: '#9B8B7E' }}>
+                {cardState ? (isDue(cardState) ? '今天該複習了' : `${formatInterval(cardState)}後複習`) : '新卡片'}・點擊翻牌
               </span>
-              <span class="text-xs mt-4" style={{ color: '#9B8B7E' }}>點擊翻牌</span>
             </div>
             {/* Back */}
             <div
@@ -97,11 +205,76 @@ export default function Flashcard({ cards }: Props) {
               <span class="text-xs" style={{ color: '#9B8B7E', fontFamily: "'Noto Sans JP', sans-serif" }}>
                 {card.romaji}
               </span>
+              {card.audio && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); playAudio(audioUrl(card.audio!)); }}
+                  class="mt-3 px-3 py-1 rounded-full text-xs font-medium"
+                  style={{ background: 'white', color: '#3D8B6E' }}
+                  aria-label="播放發音"
+                >
+                  🔊 播放發音
+                </button>
+              )}
               <span class="text-xs mt-4" style={{ color: '#9B8B7E' }}>點擊翻回</span>
             </div>
           </div>
         </div>
 
+        {/* Typed answer */}
+        {typed && !isFlipped && (
+          <form onSubmit={submitAnswer} class="flex gap-2 w-full max-w-sm mt-4">
+            <input
+              type="text"
+              value={answer}
+              onInput={(e) => setAnswer((e.target as HTMLInputElement).value)}
+              placeholder={directions.find((d) => d.value === direction)!.prompt}
+              autocomplete="off"
+              autocapitalize="off"
+              spellcheck={false}
+              lang={direction === 'jp-zh' ? 'zh-Hant' : 'ja'}
+              class="flex-1 px-4 py-2.5 rounded-xl border text-sm outline-none"
+              style={{ borderColor: 'rgba(232, 221, 212, 0.8)', color: '#3D3229', fontFamily: "'Noto Sans JP', 'Noto Sans TC', sans-serif" }}
+            />
+            <button
+              type="submit"
+              class="px-4 py-2.5 rounded-xl text-sm font-medium text-white"
+              style={{ background: '#5BA87A' }}
+            >
+              確認
+            </button>
+          </form>
+        )}
+        {typed && isFlipped && result !== null && (
+          <div
+            class="w-full max-w-sm mt-4 px-4 py-2.5 rounded-xl text-sm"
+            style={result ? { background: '#F0FAF4', color: '#3D8B6E' } : { background: '#FFF5F5', color: '#E85D5D' }}
+          >
+            {result ? '✅ 答對了！' : `❌ 你的答案：${answer || '（未作答）'}`}
+          </div>
+        )}
+
+        {/* Grading */}
+        {isFlipped && (
+          <div class="grid grid-cols-4 gap-2 w-full max-w-sm mt-4">
+            {GRADES.map((g) => {
+              const { label, color, bg } = gradeLabels[g];
+              return (
+                <button
+                  key={g}
+                  onClick={(e) => { e.stopPropagation(); grade(g); }}
+                  class="py-2 rounded-xl border text-sm font-medium transition-colors"
+                  style={{ borderColor: color, background: bg, color }}
+                >
+                  {label}
+                  <span class="block text-xs font-normal" style={{ color: '#9B8B7E' }}>
+                    {formatInterval(schedule(cardState, g))}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Navigation */}
         <div class="flex items-center gap-4 mt-6">
           <button
@@ -131,11 +304,11 @@ export default function Flashcard({ cards }: Props) {
 
         {/* Progress dots */}
         <div class="flex gap-1.5 mt-3">
-          {cards.map((_, i) => (
+          {cards.map((c, i) => (
             <div
               key={i}
               class="w-2 h-2 rounded-full transition-colors"
-              style={{ background: i === currentIndex ? '#5BA87A' : '#E8DDD4' }}
+              style={{ background: i === currentIndex ? '#5BA87A' : isDue(deck[c.id]) ? '#E8DDD4' : '#A8D5BA' }}
             />
           ))}
         </div>
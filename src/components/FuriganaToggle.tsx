@@ -0,0 +1,47 @@
+import { useState, useEffect } from 'preact/hooks';
+
+type Mode = 'show' | 'hover' | 'hide';
+
+// Must match the inline script in BaseLayout that applies the mode before first paint
+const STORAGE_KEY = 'jlearn-furigana';
+
+const modes: { mode: Mode; label: string; title: string }[] = [
+  { mode: 'show', label: 'あ', title: '顯示假名標音' },
+  { mode: 'hover', label: 'あ?', title: '滑過時顯示假名標音' },
+  { mode: 'hide', label: '漢', title: '隱藏假名標音' },
+];
+
+export default function FuriganaToggle() {
+  const [mode, setMode] = useState<Mode>('show');
+
+  useEffect(() => {
+    const current = document.documentElement.dataset.furigana as Mode | undefined;
+    if (current) setMode(current);
+  }, []);
+
+  const cycle = () => {
+    const index = modes.findIndex((m) => m.mode === mode);
+    const next = modes[(index + 1) % modes.length].mode;
+    setMode(next);
+    document.documentElement.dataset.furigana = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch (err) {
+      console.warn('[jlearn] Could not save furigana preference', err);
+    }
+  };
+
+  const current = modes.find((m) => m.mode === mode) || modes[0];
+
+  return (
+    <button
+      onClick={cycle}
+      class="px-2 py-1.5 rounded-xl hover:bg-warm-100 transition-colors text-sm font-medium"
+      style={{ color: '#6B5B4E', fontFamily: "'Noto Sans JP', sans-serif", minWidth: '2.25rem' }}
+      aria-label={`假名標音：${current.title}`}
+      title={`${current.title}（點擊切換）`}
+    >
+      {current.label}
+    </button>
+  );
+}
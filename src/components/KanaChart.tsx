@@ -0,0 +1,70 @@
+import { KANA_CHART, KANA_GROUPS } from '../data/kana';
+import type { KanaCell } from '../data/kana';
+import { kanaStrokes } from '../data/kanaStrokes';
+import { kanaAccuracy } from '../lib/kanaDrill';
+import type { KanaStat } from '../lib/kanaDrill';
+
+interface Props {
+  script: 'hiragana' | 'katakana';
+  stats: Record<string, KanaStat>;
+  /** Opens the tracer; only offered for kana with stroke data */
+  onTrace: (kana: string) => void;
+}
+
+// Cell tint from drill accuracy: untested, needs work, getting there, solid
+function tint(accuracy: number | undefined): { background: string; borderColor: string } {
+  if (accuracy === undefined) return { background: '#fff', borderColor: 'rgba(232, 221, 212, 0.5)' };
+  if (accuracy >= 0.9) return { background: '#F0FAF4', borderColor: '#A8D8B9' };
+  if (accuracy >= 0.6) return { background: '#FFFBF0', borderColor: '#EBD49A' };
+  return { background: '#FFF5F5', borderColor: '#F2B8BD' };
+}
+
+function Cell({ cell, script, stats, onTrace }: Props & { cell: KanaCell | null }) {
+  if (!cell) return <div />;
+  const kana = cell[script];
+  const stat = stats[kana];
+  const accuracy = kanaAccuracy(stat);
+  const traceable = Boolean(kanaStrokes(kana));
+  const title = accuracy === undefined ? cell.romaji : `${cell.romaji}・答對 ${Math.round(accuracy * 100)}%（${stat!.correct}/${stat!.seen}）`;
+  const body = (
+    <>
+      <span class="block text-2xl leading-tight" style={{ color: '#3D3229', fontFamily: "'Noto Sans JP', sans-serif" }} lang="ja">
+        {kana}
+      </span>
+      <span class="block text-xs" style={{ color: '#9B8B7E' }}>{cell.romaji}</span>
+    </>
+  );
+  const className = 'w-full rounded-xl border py-2 text-center transition-colors';
+  return traceable ? (
+    <button onClick={() => onTrace(kana)} class={`${className} hover:shadow-md`} style={tint(accuracy)} title={`${title}・點一下練習筆順`}>
+      {body}
+    </button>
+  ) : (
+    <div class={className} style={tint(accuracy)} title={title}>
+      {body}
+    </div>
+  );
+}
+
+export default function KanaChart(props: Props) {
+  return (
+    <div class="space-y-6">
+      {KANA_GROUPS.map((group) => (
+        <div key={group.id}>
+          <h3 class="text-sm font-semibold mb-2" style={{ color: '#6B5B4E' }}>{group.label}</h3>
+          <div class="grid gap-1.5" style={{ gridTemplateColumns: `repeat(${group.columns.length}, minmax(0, 1fr))` }}>
+            {KANA_CHART[group.id].flatMap((row, r) =>
+              row.map((cell, c) => <Cell key={`${r}-${c}`} cell={cell} {...props} />)
+            )}
+          </div>
+        </div>
+      ))}
+      <div class="flex flex-wrap items-center gap-3 text-xs" style={{ color: '#9B8B7E' }}>
+        <span>認字正確率：</span>
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded border" style={tint(0.95)} />90% 以上</span>
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded border" style={tint(0.7)} />60–90%</span>
+        <span class="flex items-center gap-1"><span class="w-3 h-3 rounded border" style={tint(0.3)} />未滿 60%</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import { KANA_CELLS, KANA_GROUPS } from '../data/kana';
+import type { KanaGroup } from '../data/kana';
+import { checkKanaAnswer, nextKanaQuestion, recordKanaAnswer } from '../lib/kanaDrill';
+import type { KanaDrillMode, KanaQuestion, KanaScript, KanaStat } from '../lib/kanaDrill';
+import { recordActivity } from '../lib/progress';
+
+interface Props {
+  stats: Record<string, KanaStat>;
+  onStats: (stats: Record<string, KanaStat>) => void;
+}
+
+interface Answer {
+  question: KanaQuestion;
+  correct: boolean;
+  ms: number;
+}
+
+const ROUND_SECONDS = 60;
+const jpFont = "'Noto Sans JP', sans-serif";
+
+const modes: { value: KanaDrillMode; label: string }[] = [
+  { value: 'kana-romaji', label: '假名 → 羅馬拼音' },
+  { value: 'romaji-kana', label: '羅馬拼音 → 假名' },
+  { value: 'script', label: '平假名 ↔ 片假名' },
+];
+
+const scripts: { value: KanaScript; label: string }[] = [
+  { value: 'hiragana', label: '平假名' },
+  { value: 'katakana', label: '片假名' },
+  { value: 'both', label: '混合' },
+];
+
+const pill = (active: boolean) =>
+  active ? { background: '#5BA87A', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' };
+
+export default function KanaDrill({ stats, onStats }: Props) {
+  const [mode, setMode] = useState<KanaDrillMode>('kana-romaji');
+  const [script, setScript] = useState<KanaScript>('hiragana');
+  const [groups, setGroups] = useState<KanaGroup[]>(['basic']);
+  const [running, setRunning] = useState(false);
+  const [question, setQuestion] = useState<KanaQuestion | null>(null);
+  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [typed, setTyped] = useState('');
+  const [wrong, setWrong] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(ROUND_SECONDS);
+  const askedAt = useRef(0);
+  const pending = useRef<ReturnType<typeof setTimeout>>();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const cells = KANA_CELLS.filter((c) => groups.includes(c.group));
+
+  const ask = (latest: Record<string, KanaStat>, previous?: KanaQuestion) => {
+    setQuestion(nextKanaQuestion(mode, script, cells, latest, previous));
+    setTyped('');
+    setWrong(null);
+    askedAt.current = Date.now();
+  };
+
+  const start = () => {
+    clearTimeout(pending.current);
+    setAnswers([]);
+    setSecondsLeft(ROUND_SECONDS);
+    setRunning(true);
+    ask(stats);
+  };
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => setSecondsLeft((s) => s - 1), 1000);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  useEffect(() => {
+    if (running && secondsLeft <= 0) {
+      setRunning(false);
+      recordActivity();
+    }
+  }, [running, secondsLeft]);
+
+  useEffect(() => {
+    if (running && !question?.options) inputRef.current?.focus();
+  }, [question, running]);
+
+  const answer = (input: string) => {
+    if (!question || wrong !== null) return;
+    const correct = checkKanaAnswer(question, input);
+    const ms = Date.now() - askedAt.current;
+    const latest = recordKanaAnswer(question.kana, correct, ms);
+    onStats(latest);
+    setAnswers((a) => [...a, { question, correct, ms }]);
+    if (correct) {
+      ask(latest, question);
+    } else {
+      // Leave the right answer up for a moment; the clock keeps running
+      setWrong(input);
+      pending.current = setTimeout(() => ask(latest, question), 1200);
+    }
+  };
+
+  const toggleGroup = (group: KanaGroup) => {
+    const next = groups.includes(group) ? groups.filter((g) => g !== group) : [...groups, group];
+    if (next.length > 0) setGroups(next);
+  };
+
+  // Setup, or the results of the round just played
+  if (!running) {
+    const correct = answers.filter((a) => a.correct).length;
+    const averageMs = answers.length ? answers.reduce((sum, a) => sum + a.ms, 0) / answers.length : 0;
+    const missed = [...new Set(answers.filter((a) => !a.correct).map((a) => a.question.kana))];
+
+    return (
+      <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        {answers.length > 0 && (
+          <div class="text-center mb-6 pb-6 border-b" style={{ borderColor: '#F5F0EB' }}>
+            <p class="text-lg mb-1" style={{ color: '#6B5B4E' }}>
+              {ROUND_SECONDS} 秒內答對 <strong style={{ color: '#5BA87A' }}>{correct}</strong> / {answers.length} 題
+            </p>
+            <p class="text-sm" style={{ color: '#9B8B7E' }}>
+              正確率 {Math.round((correct / answers.length) * 100)}%・平均每題 {(averageMs / 1000).toFixed(1)} 秒
+            </p>
+            {missed.length > 0 && (
+              <p class="text-sm mt-3" style={{ color: '#6B5B4E' }}>
+                要再加強：
+                <span class="text-lg tracking-widest ml-1" style={{ color: '#E85D5D', fontFamily: jpFont }} lang="ja">{missed.join(' ')}</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        <div class="space-y-4">
+          <div>
+            <p class="text-xs font-medium mb-2" style={{ color: '#9B8B7E' }}>題型</p>
+            <div class="flex flex-wrap gap-2">
+              {modes.map((m) => (
+                <button key={m.value} onClick={() => setMode(m.value)} class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors" style={pill(mode === m.value)}>
+                  {m.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {mode !== 'script' && (
+            <div>
+              <p class="text-xs font-medium mb-2" style={{ color: '#9B8B7E' }}>文字</p>
+              <div class="flex flex-wrap gap-2">
+                {scripts.map((s) => (
+                  <button key={s.value} onClick={() => setScript(s.value)} class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors" style={pill(script === s.value)}>
+                    {s.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <p class="text-xs font-medium mb-2" style={{ color: '#9B8B7E' }}>範圍</p>
+            <div class="flex flex-wrap gap-2">
+              {KANA_GROUPS.map((g) => (
+                <button
+                  key={g.id}
+                  onClick={() => toggleGroup(g.id)}
+                  aria-pressed={groups.includes(g.id)}
+                  class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+                  style={pill(groups.includes(g.id))}
+                >
+                  {g.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <p class="text-xs mt-4" style={{ color: '#9B8B7E' }}>常答錯和還沒練過的假名會出現得比較多。</p>
+        <button onClick={start} class="mt-4 w-full py-3 rounded-xl text-sm font-medium text-white transition-colors" style={{ background: '#5BA87A' }}>
+          {answers.length > 0 ? '再挑戰一次' : `開始 ${ROUND_SECONDS} 秒挑戰`}
+        </button>
+      </div>
+    );
+  }
+
+  if (!question) return null;
+  const score = answers.filter((a) => a.correct).length;
+
+  return (
+    <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="flex items-center justify-between text-xs font-medium mb-2" style={{ color: '#9B8B7E' }}>
+        <span>答對 {score} 題</span>
+        <span>剩 {secondsLeft} 秒</span>
+      </div>
+      <div class="w-full h-2 rounded-full mb-8" style={{ background: '#F5F0EB' }}>
+        <div
+          class="h-2 rounded-full transition-all duration-1000 ease-linear"
+          style={{ width: `${(secondsLeft / ROUND_SECONDS) * 100}%`, background: secondsLeft > 10 ? '#5BA87A' : '#E85D5D' }}
+        />
+      </div>
+
+      <p class="text-center text-6xl font-medium mb-8" style={{ color: '#3D3229', fontFamily: mode === 'romaji-kana' ? undefined : jpFont }} lang={mode === 'romaji-kana' ? undefined : 'ja'}>
+        {question.prompt}
+      </p>
+
+      {question.options ? (
+        <div class="grid grid-cols-2 gap-3">
+          {question.options.map((option) => {
+            const reveal = wrong !== null && (option === question.answer || option === wrong);
+            return (
+              <button
+                key={option}
+                onClick={() => answer(option)}
+                disabled={wrong !== null}
+                class="py-4 rounded-xl border text-3xl transition-colors"
+                style={{
+                  fontFamily: jpFont,
+                  color: '#3D3229',
+                  borderColor: reveal ? (option === question.answer ? '#5BA87A' : '#E85D5D') : '#E8DDD4',
+                  background: reveal ? (option === question.answer ? '#F0FAF4' : '#FFF5F5') : '#fff',
+                }}
+                lang="ja"
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            answer(typed);
+          }}
+          class="flex gap-2"
+        >
+          <input
+            ref={inputRef}
+            value={typed}
+            onInput={(e) => setTyped((e.target as HTMLInputElement).value)}
+            disabled={wrong !== null}
+            autocomplete="off"
+            autocapitalize="off"
+            spellcheck={false}
+            placeholder="輸入羅馬拼音，按 Enter"
+            class="flex-1 px-4 py-3 rounded-xl border text-lg outline-none"
+            style={{ borderColor: wrong !== null ? '#E85D5D' : '#E8DDD4', color: '#3D3229' }}
+          />
+          <button type="submit" class="px-5 rounded-xl text-sm font-medium text-white" style={{ background: '#5BA87A' }}>
+            確定
+          </button>
+        </form>
+      )}
+
+      {wrong !== null && (
+        <p class="text-center text-sm mt-4" style={{ color: '#E85D5D' }}>
+          正確答案是 <strong style={{ fontFamily: jpFont }}>{question.answer}</strong>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'preact/hooks';
+import KanaChart from './KanaChart';
+import KanaDrill from './KanaDrill';
+import KanaTracer from './KanaTracer';
+import { KANA_CELLS } from '../data/kana';
+import { kanaStrokes } from '../data/kanaStrokes';
+import { loadKanaStats } from '../lib/kanaDrill';
+import type { KanaStat } from '../lib/kanaDrill';
+
+interface Props {
+  title: string;
+}
+
+type Tab = 'chart' | 'drill' | 'trace';
+
+const tabs: { value: Tab; label: string }[] = [
+  { value: 'chart', label: '五十音表' },
+  { value: 'drill', label: '認字挑戰' },
+  { value: 'trace', label: '筆順練習' },
+];
+
+export default function KanaPractice({ title }: Props) {
+  const [tab, setTab] = useState<Tab>('chart');
+  const [script, setScript] = useState<'hiragana' | 'katakana'>('hiragana');
+  const [stats, setStats] = useState<Record<string, KanaStat>>({});
+  const [tracing, setTracing] = useState('あ');
+
+  useEffect(() => {
+    setStats(loadKanaStats());
+  }, []);
+
+  const traceable = KANA_CELLS.map((c) => c[script]).filter((k) => kanaStrokes(k));
+
+  const trace = (kana: string) => {
+    setTracing(kana);
+    setTab('trace');
+  };
+
+  return (
+    <section class="my-10">
+      <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
+        <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#FCE4E8' }}>あ</span>
+        {title}
+      </h2>
+
+      <div class="flex flex-wrap items-center gap-2 mb-4">
+        {tabs.map((t) => (
+          <button
+            key={t.value}
+            onClick={() => setTab(t.value)}
+            class="px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+            style={tab === t.value ? { background: '#5BA87A', color: '#fff' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            {t.label}
+          </button>
+        ))}
+        {tab !== 'drill' && (
+          <div class="ml-auto flex rounded-full p-0.5" style={{ background: '#F5F0EB' }}>
+            {(['hiragana', 'katakana'] as const).map((s) => (
+              <button
+                key={s}
+                onClick={() => {
+                  setScript(s);
+                  // Keep tracing the same sound in the other script
+                  const cell = KANA_CELLS.find((c) => c.hiragana === tracing || c.katakana === tracing);
+                  if (cell) setTracing(cell[s]);
+                }}
+                class="px-3 py-1 rounded-full text-xs font-medium transition-colors"
+                style={script === s ? { background: '#fff', color: '#3D3229' } : { color: '#9B8B7E' }}
+              >
+                {s === 'hiragana' ? 'ひらがな' : 'カタカナ'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {tab === 'chart' && <KanaChart script={script} stats={stats} onTrace={trace} />}
+      {tab === 'drill' && <KanaDrill stats={stats} onStats={setStats} />}
+      {tab === 'trace' && <KanaTracer kana={tracing} sequence={traceable} onChange={setTracing} />}
+    </section>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import { kanaStrokes } from '../data/kanaStrokes';
+
+interface Props {
+  kana: string;
+  /** Kana offered by the previous / next buttons, in chart order */
+  sequence: string[];
+  onChange: (kana: string) => void;
+}
+
+type Point = [number, number];
+
+const SAMPLES = 24;
+// Mean distance, in grid units of the 100 × 100 box, within which a stroke counts
+const TOLERANCE = 13;
+const DEMO_MS_PER_STROKE = 700;
+
+const ink = '#3D3229';
+
+function resample(points: Point[], count: number): Point[] {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+  const total = lengths[lengths.length - 1];
+  const result: Point[] = [];
+  let j = 0;
+  for (let i = 0; i < count; i++) {
+    const at = (total * i) / (count - 1);
+    while (j < points.length - 2 && lengths[j + 1] < at) j++;
+    const span = lengths[j + 1] - lengths[j] || 1;
+    const t = Math.min(1, (at - lengths[j]) / span);
+    result.push([points[j][0] + (points[j + 1][0] - points[j][0]) * t, points[j][1] + (points[j + 1][1] - points[j][1]) * t]);
+  }
+  return result;
+}
+
+function pathPoints(path: SVGPathElement): Point[] {
+  const length = path.getTotalLength();
+  return Array.from({ length: SAMPLES }, (_, i) => {
+    const p = path.getPointAtLength((length * i) / (SAMPLES - 1));
+    return [p.x, p.y];
+  });
+}
+
+const meanDistance = (a: Point[], b: Point[]) => a.reduce((sum, p, i) => sum + Math.hypot(p[0] - b[i][0], p[1] - b[i][1]), 0) / a.length;
+
+const strokeStart = (path: string): Point => {
+  const [, x, y] = path.match(/^M\s*([\d.]+)[\s,]+([\d.]+)/)!;
+  return [Number(x), Number(y)];
+};
+
+export default function KanaTracer({ kana, sequence, onChange }: Props) {
+  const strokes = kanaStrokes(kana) || [];
+  const [done, setDone] = useState(0);
+  const [mistakes, setMistakes] = useState(0);
+  const [hint, setHint] = useState<string | null>(null);
+  const [showModel, setShowModel] = useState(true);
+  const [demo, setDemo] = useState<number | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pathRefs = useRef<(SVGPathElement | null)[]>([]);
+  const drawing = useRef<Point[] | null>(null);
+
+  const reset = () => {
+    setDone(0);
+    setMistakes(0);
+    setHint(null);
+    clearCanvas();
+  };
+
+  useEffect(() => {
+    reset();
+    setDemo(null);
+  }, [kana]);
+
+  // Demo: strokes draw themselves one after another
+  useEffect(() => {
+    if (demo === null) return;
+    const startedAt = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const progress = (now - startedAt) / DEMO_MS_PER_STROKE;
+      if (progress >= strokes.length + 0.5) {
+        setDemo(null);
+        return;
+      }
+      setDemo(progress);
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [demo === null, kana]);
+
+  function clearCanvas() {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  }
+
+  const toGrid = (e: PointerEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * 100, ((e.clientY - rect.top) / rect.height) * 100];
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (done >= strokes.length || demo !== null) return;
+    const canvas = canvasRef.current!;
+    canvas.setPointerCapture(e.pointerId);
+    // Match the backing store to the displayed size so ink stays sharp
+    const rect = canvas.getBoundingClientRect();
+    const scale = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(rect.width * scale)) {
+      canvas.width = Math.round(rect.width * scale);
+      canvas.height = Math.round(rect.height * scale);
+    }
+    drawing.current = [toGrid(e)];
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    const points = drawing.current;
+    if (!points) return;
+    const point = toGrid(e);
+    const last = points[points.length - 1];
+    points.push(point);
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    const unit = canvas.width / 100;
+    ctx.strokeStyle = ink;
+    ctx.lineWidth = 5 * unit;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(last[0] * unit, last[1] * unit);
+    ctx.lineTo(point[0] * unit, point[1] * unit);
+    ctx.stroke();
+  };
+
+  const onPointerUp = () => {
+    const points = drawing.current;
+    drawing.current = null;
+    clearCanvas();
+    if (!points || points.length < 2) return;
+    const drawn = resample(points, SAMPLES);
+    const expected = pathPoints(pathRefs.current[done]!);
+    if (meanDistance(drawn, expected) <= TOLERANCE) {
+      setDone(done + 1);
+      setHint(null);
+      return;
+    }
+    setMistakes(mistakes + 1);
+    if (meanDistance([...drawn].reverse(), expected) <= TOLERANCE) setHint('方向反了，從圓點開始寫。');
+    else if (pathRefs.current.some((p, i) => i > done && p && meanDistance(drawn, pathPoints(p)) <= TOLERANCE)) {
+      setHint(`筆順不對，先寫第 ${done + 1} 筆。`);
+    } else setHint(`第 ${done + 1} 筆再試一次，照著紅色的筆畫寫。`);
+  };
+
+  const index = sequence.indexOf(kana);
+  const finished = strokes.length > 0 && done >= strokes.length;
+
+  return (
+    <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="flex items-center justify-between mb-4">
+        <button
+          onClick={() => onChange(sequence[index - 1])}
+          disabled={index <= 0}
+          class="px-3 py-1.5 rounded-xl text-sm disabled:opacity-40"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          ← {sequence[index - 1] || ''}
+        </button>
+        <div class="text-center">
+          <span class="text-2xl font-medium" style={{ color: ink, fontFamily: "'Noto Sans JP', sans-serif" }} lang="ja">{kana}</span>
+          <span class="block text-xs" style={{ color: '#9B8B7E' }}>共 {strokes.length} 筆</span>
+        </div>
+        <button
+          onClick={() => onChange(sequence[index + 1])}
+          disabled={index < 0 || index >= sequence.length - 1}
+          class="px-3 py-1.5 rounded-xl text-sm disabled:opacity-40"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          {sequence[index + 1] || ''} →
+        </button>
+      </div>
+
+      <div class="relative w-full max-w-xs mx-auto aspect-square rounded-xl border select-none" style={{ borderColor: '#E8DDD4', background: '#FEFCFB' }}>
+        <svg viewBox="0 0 100 100" class="absolute inset-0 w-full h-full" aria-hidden="true">
+          <line x1="50" y1="0" x2="50" y2="100" stroke="#E8DDD4" stroke-width="0.5" stroke-dasharray="2 2" />
+          <line x1="0" y1="50" x2="100" y2="50" stroke="#E8DDD4" stroke-width="0.5" stroke-dasharray="2 2" />
+          {strokes.map((d, i) => {
+            const demoing = demo !== null;
+            const visible = demoing ? Math.min(1, Math.max(0, demo - i)) : i < done || showModel || (i === done && hint) ? 1 : 0;
+            const color = demoing || i < done ? ink : i === done && hint ? '#E85D5D' : '#E8DDD4';
+            return (
+              <path
+                key={`${kana}-${i}`}
+                ref={(el) => {
+                  pathRefs.current[i] = el;
+                }}
+                d={d}
+                pathLength={1}
+                fill="none"
+                stroke={color}
+                stroke-width={i < done || demoing ? 5 : 6}
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                stroke-dasharray="1"
+                stroke-dashoffset={1 - visible}
+                opacity={visible > 0 ? 1 : 0}
+              />
+            );
+          })}
+          {demo === null && !finished && (showModel || hint) && strokes[done] && (
+            <circle cx={strokeStart(strokes[done])[0]} cy={strokeStart(strokes[done])[1]} r="3" fill={hint ? '#E85D5D' : '#5BA87A'} />
+          )}
+          {demo === null && showModel &&
+            strokes.map((d, i) =>
+              i >= done ? (
+                <text key={`n-${i}`} x={strokeStart(d)[0] - 6} y={strokeStart(d)[1] - 3} font-size="6" fill="#9B8B7E">
+                  {i + 1}
+                </text>
+              ) : null
+            )}
+        </svg>
+        <canvas
+          ref={canvasRef}
+          class="absolute inset-0 w-full h-full"
+          style={{ touchAction: 'none', cursor: finished ? 'default' : 'crosshair' }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => {
+            drawing.current = null;
+            clearCanvas();
+          }}
+        />
+      </div>
+
+      <p class="text-center text-sm mt-4 min-h-[1.25rem]" style={{ color: finished ? '#5BA87A' : hint ? '#E85D5D' : '#9B8B7E' }}>
+        {finished
+          ? mistakes === 0
+            ? '完美！筆順全部正確 🎉'
+            : `完成！過程中修正了 ${mistakes} 次`
+          : hint || `從綠色圓點開始，寫第 ${done + 1} 筆`}
+      </p>
+
+      <div class="flex flex-wrap justify-center gap-2 mt-4">
+        <button
+          onClick={() => {
+            reset();
+            setDemo(0);
+          }}
+          disabled={demo !== null}
+          class="px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-40"
+          style={{ background: '#F0FAF4', color: '#3D8B6E' }}
+        >
+          ▶ 示範筆順
+        </button>
+        <button onClick={reset} class="px-4 py-2 rounded-xl text-sm font-medium" style={{ background: '#F5F0EB', color: '#6B5B4E' }}>
+          重寫
+        </button>
+        <button
+          onClick={() => setShowModel(!showModel)}
+          aria-pressed={!showModel}
+          class="px-4 py-2 rounded-xl text-sm font-medium"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          {showModel ? '隱藏字形（默寫）' : '顯示字形'}
+        </button>
+      </div>
+    </div>
+  );
+}
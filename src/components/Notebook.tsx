@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'preact/hooks';
+import Flashcard from './Flashcard';
+import Ruby from './Ruby';
+import { loadNotebook, setBookmark, setNote } from '../lib/notebook';
+import type { NotebookEntry, NotebookKind } from '../lib/notebook';
+import { cardId } from '../lib/srs';
+
+const kindLabels: Record<NotebookKind, { label: string; color: string }> = {
+  vocab: { label: '單字', color: '#5BA87A' },
+  grammar: { label: '文法', color: '#D4A853' },
+  dialogue: { label: '對話', color: '#D4737D' },
+};
+
+function EntryCard({ entry, onChange }: { entry: NotebookEntry; onChange: () => void }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(entry.note);
+  const kind = kindLabels[entry.kind];
+
+  const save = () => {
+    setNote(entry, draft);
+    setEditing(false);
+    onChange();
+  };
+
+  return (
+    <li class="bg-white rounded-2xl border p-4" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="flex items-start gap-3">
+        <div class="flex-1 min-w-0">
+          <div class="flex items-center gap-2 mb-1 text-xs">
+            <span class="px-2 py-0.5 rounded-full font-medium" style={{ color: kind.color, background: '#F5F0EB' }}>{kind.label}</span>
+            <a href={entry.href} class="hover:underline truncate" style={{ color: '#9B8B7E' }}>
+              第 {entry.chapterId} 章・{entry.unitId.replace('unit', '單元 ')}
+            </a>
+          </div>
+          <div class="font-medium leading-relaxed" style={{ color: '#3D3229', fontFamily: "'Noto Sans JP', sans-serif" }} lang="ja">
+            <Ruby text={entry.japanese} />
+            {entry.reading && entry.reading !== entry.japanese && (
+              <span class="text-sm ml-2" style={{ color: '#5BA87A' }}>{entry.reading}</span>
+            )}
+          </div>
+          <div class="text-sm" style={{ color: '#9B8B7E' }}>{entry.chinese}</div>
+        </div>
+        <button
+          onClick={() => {
+            setBookmark(entry, !entry.bookmarked);
+            onChange();
+          }}
+          class="text-xl leading-none p-1 shrink-0"
+          style={{ color: entry.bookmarked ? '#D4A853' : '#C8BBB0' }}
+          aria-label={entry.bookmarked ? '取消書籤' : '加入書籤'}
+          aria-pressed={entry.bookmarked}
+        >
+          {entry.bookmarked ? '★' : '☆'}
+        </button>
+      </div>
+
+      {editing ? (
+        <div class="mt-3">
+          <textarea
+            rows={3}
+            value={draft}
+            onInput={(e) => setDraft((e.target as HTMLTextAreaElement).value)}
+            class="w-full rounded-xl border px-3 py-2 text-sm outline-none"
+            style={{ borderColor: '#E8DDD4', color: '#3D3229' }}
+            placeholder="寫下記憶方法、使用情境……"
+          />
+          <div class="flex justify-end gap-2 mt-2">
+            <button onClick={() => { setDraft(entry.note); setEditing(false); }} class="px-3 py-1.5 rounded-xl text-sm" style={{ color: '#6B5B4E' }}>
+              取消
+            </button>
+            <button onClick={save} class="px-4 py-1.5 rounded-xl text-sm font-medium text-white" style={{ background: '#5BA87A' }}>
+              儲存
+            </button>
+          </div>
+        </div>
+      ) : entry.note ? (
+        <button
+          onClick={() => setEditing(true)}
+          class="mt-3 w-full text-left px-3 py-2 rounded-lg text-xs whitespace-pre-wrap"
+          style={{ background: '#FDF8EC', color: '#6B5B4E' }}
+          title="編輯筆記"
+        >
+          📝 {entry.note}
+        </button>
+      ) : (
+        <button onClick={() => setEditing(true)} class="mt-2 text-xs hover:underline" style={{ color: '#9B8B7E' }}>
+          ✎ 加上筆記
+        </button>
+      )}
+    </li>
+  );
+}
+
+export default function Notebook() {
+  const [entries, setEntries] = useState<NotebookEntry[] | null>(null);
+  const [kind, setKind] = useState<NotebookKind | 'all'>('all');
+  const [practising, setPractising] = useState(false);
+
+  const reload = () => setEntries(Object.values(loadNotebook()).sort((a, b) => b.updatedAt - a.updatedAt));
+  useEffect(reload, []);
+
+  if (!entries) return null;
+
+  // Bookmarked vocab doubles as a flashcard deck; card IDs match the unit's own
+  // flashcards, so reviews here and there share one schedule.
+  const deck = entries
+    .filter((e) => e.kind === 'vocab' && e.bookmarked)
+    .map((e) => ({
+      id: cardId(e.chapterId, e.unitId, e.japanese),
+      japanese: e.japanese,
+      reading: e.reading || e.japanese,
+      romaji: e.romaji || '',
+      chinese: e.chinese,
+      audio: e.audio,
+    }));
+
+  if (practising && deck.length > 0) {
+    return (
+      <div>
+        <Flashcard cards={deck} />
+        <div class="text-center">
+          <button
+            onClick={() => setPractising(false)}
+            class="px-5 py-2.5 rounded-xl text-sm font-medium transition-colors"
+            style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            回到筆記本
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div class="bg-white rounded-2xl border p-8 text-center" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <p class="text-3xl mb-3">📒</p>
+        <p class="text-sm" style={{ color: '#6B5B4E' }}>
+          筆記本還是空的。在課程的單字、文法和對話旁點 ☆ 加入書籤，或點 ✎ 寫下自己的筆記。
+        </p>
+      </div>
+    );
+  }
+
+  const visible = kind === 'all' ? entries : entries.filter((e) => e.kind === kind);
+  const filters: { value: NotebookKind | 'all'; label: string }[] = [
+    { value: 'all', label: '全部' },
+    ...(Object.keys(kindLabels) as NotebookKind[]).map((k) => ({ value: k, label: kindLabels[k].label })),
+  ];
+
+  return (
+    <div>
+      <div class="flex items-center gap-2 flex-wrap mb-4">
+        {filters.map((f) => (
+          <button
+            key={f.value}
+            onClick={() => setKind(f.value)}
+            class="px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+            style={kind === f.value ? { background: '#5BA87A', color: '#fff' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            {f.label}
+          </button>
+        ))}
+        {deck.length > 0 && (
+          <button
+            onClick={() => setPractising(true)}
+            class="ml-auto px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+            style={{ background: '#FDF8EC', color: '#B08A3A' }}
+          >
+            🃏 用 {deck.length} 個書籤單字練習
+          </button>
+        )}
+      </div>
+      <ul class="space-y-2">
+        {visible.map((entry) => (
+          <EntryCard key={entry.id} entry={entry} onChange={reload} />
+        ))}
+      </ul>
+    </div>
+  );
+}
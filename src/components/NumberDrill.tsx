@@ -0,0 +1,179 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import { checkNumberReading, checkNumberValue, generateNumberQuestion } from '../lib/numbers';
+import type { NumberDrillKind, NumberQuestion } from '../lib/numbers';
+import { kanaToRomaji } from '../lib/kana';
+import { recordActivity } from '../lib/progress';
+
+interface Props {
+  title: string;
+  drills: NumberDrillKind[];
+}
+
+type Direction = 'read' | 'write';
+
+const kindLabels: Record<NumberDrillKind, string> = {
+  price: '價格',
+  time: '時間',
+  date: '日期',
+  counter: '量詞',
+};
+
+const directions: { value: Direction; label: string; prompt: string }[] = [
+  { value: 'read', label: '數字 → 讀法', prompt: '輸入讀法（假名或羅馬拼音）' },
+  { value: 'write', label: '讀法 → 數字', prompt: '輸入數字，例如 3480、7:15、4/8' },
+];
+
+// Streak after which the learner can call the drill done
+const FLUENT_STREAK = 10;
+const jpFont = "'Noto Sans JP', sans-serif";
+
+export default function NumberDrill({ title, drills }: Props) {
+  const [kind, setKind] = useState<NumberDrillKind>(drills[0]);
+  const [direction, setDirection] = useState<Direction>('read');
+  const [question, setQuestion] = useState<NumberQuestion>(() => generateNumberQuestion(drills[0]));
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<boolean | null>(null);
+  const [showRomaji, setShowRomaji] = useState(false);
+  const [tally, setTally] = useState({ correct: 0, total: 0, streak: 0, best: 0 });
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pending = useRef<ReturnType<typeof setTimeout>>();
+
+  const next = (k = kind, focus = true) => {
+    clearTimeout(pending.current);
+    setQuestion(generateNumberQuestion(k));
+    setAnswer('');
+    setResult(null);
+    if (focus) inputRef.current?.focus();
+  };
+
+  // A fresh value on the client, so the server-rendered one isn't always first
+  useEffect(() => next(kind, false), []);
+
+  const choose = (k: NumberDrillKind) => {
+    setKind(k);
+    setTally({ correct: 0, total: 0, streak: 0, best: 0 });
+    next(k);
+  };
+
+  const submit = (e: Event) => {
+    e.preventDefault();
+    if (result !== null) {
+      next();
+      return;
+    }
+    if (!answer.trim()) return;
+    const correct = direction === 'read' ? checkNumberReading(question, answer) : checkNumberValue(question, answer);
+    setResult(correct);
+    recordActivity();
+    setTally((t) => {
+      const streak = correct ? t.streak + 1 : 0;
+      return { correct: t.correct + (correct ? 1 : 0), total: t.total + 1, streak, best: Math.max(t.best, streak) };
+    });
+    // Right answers move straight on; wrong ones wait for Enter
+    if (correct) pending.current = setTimeout(() => next(), 700);
+  };
+
+  const reading = question.readings[0];
+  const prompt = direction === 'read' ? question.written : showRomaji ? kanaToRomaji(reading) : reading;
+
+  return (
+    <section class="my-10">
+      <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
+        <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#FFF3D6' }}>🔢</span>
+        {title}
+        <span class="ml-auto text-xs font-normal" style={{ color: '#9B8B7E' }}>
+          {tally.total > 0 && `答對 ${tally.correct} / ${tally.total}・連續 ${tally.streak}`}
+        </span>
+      </h2>
+
+      <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <div class="flex flex-wrap items-center gap-2 mb-6">
+          {drills.length > 1 &&
+            drills.map((k) => (
+              <button
+                key={k}
+                onClick={() => choose(k)}
+                class="px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+                style={kind === k ? { background: '#5BA87A', color: '#fff' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+              >
+                {kindLabels[k]}
+              </button>
+            ))}
+          <div class="ml-auto flex flex-wrap gap-2">
+            {directions.map((d) => (
+              <button
+                key={d.value}
+                onClick={() => {
+                  setDirection(d.value);
+                  next();
+                }}
+                class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+                style={direction === d.value ? { background: '#5BA87A', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+              >
+                {d.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div class="text-center mb-6">
+          <p
+            class={`${direction === 'read' ? 'text-5xl' : 'text-2xl sm:text-3xl'} font-medium break-all`}
+            style={{ color: '#3D3229', fontFamily: jpFont }}
+            lang="ja"
+          >
+            {prompt}
+          </p>
+          {question.hint && <p class="text-xs mt-2" style={{ color: '#9B8B7E' }}>數{question.hint}</p>}
+          {direction === 'write' && (
+            <button onClick={() => setShowRomaji(!showRomaji)} class="text-xs mt-2 hover:underline" style={{ color: '#9B8B7E' }}>
+              {showRomaji ? '顯示假名' : '顯示羅馬拼音'}
+            </button>
+          )}
+        </div>
+
+        <form onSubmit={submit} class="flex gap-2">
+          <input
+            ref={inputRef}
+            value={answer}
+            onInput={(e) => setAnswer((e.target as HTMLInputElement).value)}
+            readOnly={result !== null}
+            autocomplete="off"
+            autocapitalize="off"
+            spellcheck={false}
+            inputMode={direction === 'write' ? 'decimal' : 'text'}
+            placeholder={directions.find((d) => d.value === direction)!.prompt}
+            class="flex-1 min-w-0 px-4 py-3 rounded-xl border text-base outline-none"
+            style={{
+              borderColor: result === null ? '#E8DDD4' : result ? '#5BA87A' : '#E85D5D',
+              background: result === null ? '#fff' : result ? '#F0FAF4' : '#FFF5F5',
+              color: '#3D3229',
+              fontFamily: jpFont,
+            }}
+          />
+          <button type="submit" class="px-5 rounded-xl text-sm font-medium text-white shrink-0" style={{ background: '#5BA87A' }}>
+            {result === null ? '確定' : '下一題'}
+          </button>
+        </form>
+
+        {result !== null && (
+          <div class="mt-4 p-4 rounded-xl text-sm" style={{ background: result ? '#F0FAF4' : '#FFF5F5' }}>
+            <p class="font-semibold mb-1" style={{ color: result ? '#5BA87A' : '#E85D5D' }}>{result ? '✓ 正確！' : '✗ 再看一次'}</p>
+            <p style={{ color: '#6B5B4E' }}>
+              <span style={{ fontFamily: jpFont }} lang="ja">{question.written}</span>
+              {' ＝ '}
+              <span style={{ fontFamily: jpFont }} lang="ja">{question.readings.join('／')}</span>
+              <span class="romaji ml-2">{kanaToRomaji(reading)}</span>
+            </p>
+          </div>
+        )}
+
+        {tally.best >= FLUENT_STREAK && (
+          <p class="text-center text-sm mt-4" style={{ color: '#5BA87A' }}>
+            🎉 已經連續答對 {tally.best} 題，{kindLabels[kind]}的讀法你已經很熟練了！
+          </p>
+        )}
+      </div>
+    </section>
+  );
+}
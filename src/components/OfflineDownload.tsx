@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'preact/hooks';
+import { activeWorker, countCached, downloadForOffline, removeOfflineAudio } from '../lib/offline';
+
+interface Props {
+  /** Unit page URLs of the chapter, with trailing slash */
+  pages: string[];
+  /** Audio URLs used anywhere in the chapter */
+  audio: string[];
+}
+
+interface Status {
+  pages: number;
+  audio: number;
+}
+
+export default function OfflineDownload({ pages, audio }: Props) {
+  const [worker, setWorker] = useState<ServiceWorker | null>(null);
+  const [status, setStatus] = useState<Status | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failed, setFailed] = useState(0);
+
+  const refresh = async () => {
+    const [cachedPages, cachedAudio] = await Promise.all([countCached(pages), countCached(audio)]);
+    setStatus({ pages: cachedPages, audio: cachedAudio });
+  };
+
+  useEffect(() => {
+    activeWorker().then((w) => {
+      setWorker(w);
+      if (w) refresh();
+    });
+  }, []);
+
+  // No service worker (dev server, unsupported browser): nothing to offer
+  if (!worker || !status) return null;
+
+  const complete = status.pages === pages.length && status.audio === audio.length;
+
+  const download = async () => {
+    setFailed(0);
+    setProgress({ done: 0, total: pages.length + audio.length });
+    const count = await downloadForOffline(worker, [...pages, ...audio], (done, total) => setProgress({ done, total }));
+    setProgress(null);
+    setFailed(count);
+    await refresh();
+  };
+
+  const remove = async () => {
+    await removeOfflineAudio(audio);
+    await refresh();
+  };
+
+  return (
+    <div class="bg-white rounded-2xl border p-4 mb-6 flex items-center gap-3 flex-wrap" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="flex-1 min-w-0">
+        <div class="text-sm font-bold" style={{ color: '#3D3229' }}>
+          {complete ? '✓ 本章已可離線使用' : '📥 下載本章，沒有網路也能學'}
+        </div>
+        <div class="text-xs mt-0.5" style={{ color: '#9B8B7E' }}>
+          單元頁面 {status.pages}/{pages.length}
+          {audio.length > 0 && `・音檔 ${status.audio}/${audio.length}`}
+        </div>
+        {failed > 0 && (
+          <div class="text-xs mt-1" style={{ color: '#D4737D' }}>有 {failed} 個檔案下載失敗，請連上網路後再試一次</div>
+        )}
+      </div>
+      {progress ? (
+        <span class="text-sm font-medium" style={{ color: '#5BA87A' }}>
+          下載中… {progress.done}/{progress.total}
+        </span>
+      ) : complete ? (
+        audio.length > 0 && (
+          <button onClick={remove} class="px-3 py-1.5 rounded-xl text-sm hover:bg-warm-100 transition-colors" style={{ color: '#6B5B4E' }}>
+            移除音檔
+          </button>
+        )
+      ) : (
+        <button
+          onClick={download}
+          class="px-4 py-2 rounded-xl text-sm font-medium text-white transition-colors"
+          style={{ background: '#5BA87A' }}
+        >
+          下載離線版
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'preact/hooks';
+
+export default function OfflineIndicator() {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  if (online) return null;
+
+  return (
+    <span
+      class="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+      style={{ background: '#FDF8EC', color: '#B08A3A' }}
+      role="status"
+      title="目前沒有網路：已下載的頁面照常可用，學習紀錄會先存在這台裝置"
+    >
+      ⚡ 離線中
+    </span>
+  );
+}
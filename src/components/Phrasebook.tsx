@@ -0,0 +1,213 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import { stripFurigana } from '../lib/furigana';
+import { audioUrl, playAudio } from '../lib/audio';
+import { loadFavorites, toggleFavorite } from '../lib/phrasebook';
+import Ruby from './Ruby';
+
+interface SituationInfo {
+  id: string;
+  label: string;
+  icon: string;
+}
+
+interface PhraseInfo {
+  id: string;
+  japanese: string;
+  chinese: string;
+  situation: string;
+  /** Link to the phrase on its unit page */
+  href: string;
+  audio?: string;
+}
+
+interface Props {
+  situations: SituationInfo[];
+  baseUrl: string;
+}
+
+const FAVORITES = 'favorites';
+
+// Large type for handing the phone to a clerk: plain kanji and kana, no readings
+function StaffView({ phrases, start, onClose }: { phrases: PhraseInfo[]; start: number; onClose: () => void }) {
+  const [index, setIndex] = useState(start);
+  const ref = useRef<HTMLDivElement>(null);
+  const phrase = phrases[index];
+
+  useEffect(() => {
+    ref.current?.requestFullscreen?.().catch(() => {});
+    document.body.style.overflow = 'hidden';
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowRight') setIndex((i) => Math.min(i + 1, phrases.length - 1));
+      if (e.key === 'ArrowLeft') setIndex((i) => Math.max(i - 1, 0));
+    };
+    document.addEventListener('keydown', handler);
+    return () => {
+      document.removeEventListener('keydown', handler);
+      document.body.style.overflow = '';
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  return (
+    <div ref={ref} class="fixed inset-0 z-[100] flex flex-col" style={{ background: '#FEFCFB' }}>
+      <div class="flex items-center justify-between p-4">
+        <span class="text-sm" style={{ color: '#9B8B7E' }}>{index + 1} / {phrases.length}</span>
+        <button onClick={onClose} class="px-4 py-2 rounded-xl text-sm font-medium" style={{ background: '#F5F0EB', color: '#6B5B4E' }}>
+          ✕ 關閉
+        </button>
+      </div>
+      <div class="flex-1 flex flex-col items-center justify-center px-6 text-center">
+        <p
+          class="text-4xl sm:text-6xl font-bold leading-snug mb-8"
+          style={{ color: '#3D3229', fontFamily: "'Noto Sans JP', sans-serif", wordBreak: 'keep-all', overflowWrap: 'anywhere' }}
+          lang="ja"
+        >
+          {stripFurigana(phrase.japanese)}
+        </p>
+        <p class="text-base sm:text-lg" style={{ color: '#9B8B7E' }}>{phrase.chinese}</p>
+        {phrase.audio && (
+          <button
+            onClick={() => playAudio(audioUrl(phrase.audio!))}
+            class="mt-6 px-5 py-2.5 rounded-xl text-sm font-medium"
+            style={{ background: '#F0FAF4', color: '#3D8B6E' }}
+          >
+            🔊 播放發音
+          </button>
+        )}
+      </div>
+      <div class="flex gap-3 p-4">
+        <button
+          onClick={() => setIndex(index - 1)}
+          disabled={index === 0}
+          class="flex-1 py-3 rounded-xl font-medium disabled:opacity-40"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          ← 上一句
+        </button>
+        <button
+          onClick={() => setIndex(index + 1)}
+          disabled={index === phrases.length - 1}
+          class="flex-1 py-3 rounded-xl font-medium disabled:opacity-40"
+          style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+        >
+          下一句 →
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function Phrasebook({ situations, baseUrl }: Props) {
+  const [phrases, setPhrases] = useState<PhraseInfo[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [tab, setTab] = useState(situations[0]?.id || FAVORITES);
+  const [favorites, setFavorites] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [showing, setShowing] = useState<number | null>(null);
+
+  useEffect(() => {
+    const saved = loadFavorites();
+    setFavorites(saved);
+    if (saved.length > 0) setTab(FAVORITES);
+    fetch(`${baseUrl}phrasebook.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<PhraseInfo[]>;
+      })
+      .then(setPhrases)
+      .catch((err) => {
+        console.warn('[jlearn] Could not load the phrasebook', err);
+        setLoadFailed(true);
+      });
+  }, []);
+
+  if (!phrases) {
+    return (
+      <p class="text-sm text-center py-10" style={{ color: loadFailed ? '#D4737D' : '#9B8B7E' }}>
+        {loadFailed ? '會話本載入失敗，請確認網路連線後重新整理。' : '載入中…'}
+      </p>
+    );
+  }
+
+  const byId = new Map(phrases.map((p) => [p.id, p]));
+  const inTab =
+    tab === FAVORITES
+      ? favorites.map((id) => byId.get(id)).filter((p): p is PhraseInfo => Boolean(p))
+      : phrases.filter((p) => p.situation === tab);
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? inTab.filter((p) => p.id.toLowerCase().includes(query) || p.chinese.toLowerCase().includes(query))
+    : inTab;
+
+  const tabs = [{ id: FAVORITES, label: '我的最愛', icon: '⭐' }, ...situations];
+
+  return (
+    <div>
+      <div class="flex gap-2 overflow-x-auto pb-2 mb-4">
+        {tabs.map((t) => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            class="shrink-0 px-4 py-2 rounded-xl text-sm font-medium transition-colors"
+            style={tab === t.id ? { background: '#5BA87A', color: '#fff' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            {t.icon} {t.label}
+            {t.id === FAVORITES && favorites.length > 0 && ` (${favorites.length})`}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="search"
+        value={filter}
+        onInput={(e) => setFilter((e.target as HTMLInputElement).value)}
+        placeholder="輸入中文或日文篩選，例如：過敏"
+        class="w-full px-4 py-2.5 rounded-xl border text-sm mb-4 outline-none"
+        style={{ borderColor: '#E8DDD4', background: '#fff', color: '#3D3229' }}
+      />
+
+      {visible.length === 0 ? (
+        <p class="text-sm text-center py-10" style={{ color: '#9B8B7E' }}>
+          {tab === FAVORITES && !query ? '還沒有收藏的句子，點句子旁的 ☆ 就能加到這裡。' : '找不到符合的句子。'}
+        </p>
+      ) : (
+        <ul class="space-y-2">
+          {visible.map((phrase, i) => {
+            const starred = favorites.includes(phrase.id);
+            return (
+              <li key={phrase.id} class="bg-white rounded-2xl border p-4 flex items-start gap-3" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+                <button
+                  onClick={() => setShowing(i)}
+                  class="flex-1 min-w-0 text-left"
+                  title="放大給店員看"
+                >
+                  <div class="font-medium leading-relaxed" style={{ color: '#3D3229', fontFamily: "'Noto Sans JP', sans-serif" }} lang="ja">
+                    <Ruby text={phrase.japanese} />
+                  </div>
+                  <div class="text-sm mt-0.5" style={{ color: '#9B8B7E' }}>{phrase.chinese}</div>
+                </button>
+                <div class="flex flex-col items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => setFavorites(toggleFavorite(phrase.id))}
+                    class="text-xl leading-none p-1"
+                    style={{ color: starred ? '#D4A853' : '#C8BBB0' }}
+                    aria-label={starred ? '取消收藏' : '收藏'}
+                    aria-pressed={starred}
+                  >
+                    {starred ? '★' : '☆'}
+                  </button>
+                  <a href={phrase.href} class="text-xs hover:underline" style={{ color: '#9B8B7E' }} title="到課程中查看">
+                    出處
+                  </a>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showing !== null && <StaffView phrases={visible} start={showing} onClose={() => setShowing(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'preact/hooks';
+import Quiz from './Quiz';
+import { generatePractice } from '../lib/practice';
+import type { PracticeSource } from '../lib/practice';
+import type { ChoiceQuestion } from '../data/loadUnit';
+
+interface Props {
+  /** What questions are about; the whole chapter pool when absent */
+  source?: PracticeSource;
+  /** The chapter's distractor pool, served by practice.json */
+  poolUrl: string;
+  title: string;
+  count?: number;
+}
+
+// One request per chapter and page load; a failed request is forgotten so the
+// next round retries.
+const poolRequests = new Map<string, Promise<PracticeSource>>();
+
+function loadPool(url: string): Promise<PracticeSource> {
+  let request = poolRequests.get(url);
+  if (!request) {
+    request = fetch(url).then((res) => {
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      return res.json() as Promise<PracticeSource>;
+    });
+    request.catch(() => poolRequests.delete(url));
+    poolRequests.set(url, request);
+  }
+  return request;
+}
+
+export default function PracticeQuiz({ source, poolUrl, title, count = 10 }: Props) {
+  // Generated on demand rather than during render, so the static HTML and the
+  // hydrated island agree and every round gets a new draw
+  const [questions, setQuestions] = useState<ChoiceQuestion[] | null>(null);
+  const [round, setRound] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const generate = async () => {
+    setLoading(true);
+    let pool = source;
+    try {
+      pool = await loadPool(poolUrl);
+    } catch (err) {
+      // Distractors from this unit alone still make a round, just an easier one
+      console.warn('[jlearn] could not load the chapter practice pool', err);
+    }
+    setLoading(false);
+    // Without this unit's own words to fall back on, keep the button for a retry
+    setLoadFailed(!pool);
+    if (!pool) return;
+    setQuestions(generatePractice(source ?? pool, pool, count));
+    setRound((r) => r + 1);
+  };
+
+  if (questions && questions.length > 0) {
+    return (
+      <div>
+        <Quiz key={round} questions={questions} title={title} />
+        <div class="text-center -mt-6 mb-10">
+          <button
+            onClick={generate}
+            class="px-5 py-2.5 rounded-xl text-sm font-medium transition-colors"
+            style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            🔀 換一組題目
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <section class="my-10">
+      <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
+        <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#E8D5F5' }}>🎲</span>
+        {title}
+      </h2>
+      <div class="bg-white rounded-2xl border p-6 max-w-lg mx-auto text-center" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <p class="text-sm mb-4" style={{ color: '#6B5B4E' }}>
+          從單字的意思、讀音、漢字寫法和文法例句隨機出題，每次都不一樣，想練幾輪就練幾輪。
+        </p>
+        {questions ? (
+          <p class="text-sm" style={{ color: '#9B8B7E' }}>這裡的內容還不夠出題，先去其他單元練習吧！</p>
+        ) : (
+          <button
+            onClick={generate}
+            disabled={loading}
+            class="w-full py-3 rounded-xl text-sm font-medium text-white transition-colors disabled:opacity-60"
+            style={{ background: '#5BA87A' }}
+          >
+            {loading ? '準備題目中…' : `開始練習（${count} 題）`}
+          </button>
+        )}
+        {loadFailed && (
+          <p class="text-sm mt-3" style={{ color: '#E85D5D' }}>無法載入題目，請檢查網路連線後再試一次</p>
+        )}
+      </div>
+    </section>
+  );
+}
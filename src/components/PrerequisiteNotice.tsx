@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'preact/hooks';
+import { loadProgress, subscribe } from '../lib/progress';
+import type { ProgressStore } from '../lib/progress';
+
+interface Prerequisite {
+  key: string;
+  title: string;
+  chapterId: number;
+  href: string;
+}
+
+interface Props {
+  prerequisites: Prerequisite[];
+}
+
+export default function PrerequisiteNotice({ prerequisites }: Props) {
+  const [store, setStore] = useState<ProgressStore | null>(null);
+
+  useEffect(() => {
+    setStore(loadProgress());
+    return subscribe(setStore);
+  }, []);
+
+  if (!store) return null;
+  const done = (key: string) => Boolean(store.units[key]?.completed);
+  if (prerequisites.every((p) => done(p.key))) return null;
+
+  return (
+    <div class="rounded-2xl border p-4 mb-8" style={{ background: '#FDF8EC', borderColor: '#F0E0B8' }}>
+      <p class="text-sm font-bold mb-2" style={{ color: '#3D3229' }}>📌 建議先完成這些單元</p>
+      <ul class="space-y-1">
+        {prerequisites.map((p) => (
+          <li key={p.key} class="flex items-center gap-2 text-sm">
+            <span style={{ color: done(p.key) ? '#5BA87A' : '#D4A853' }}>{done(p.key) ? '✓' : '○'}</span>
+            <a href={p.href} class="truncate hover:underline" style={{ color: done(p.key) ? '#9B8B7E' : '#3D3229' }}>
+              第{p.chapterId}章・{p.title}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
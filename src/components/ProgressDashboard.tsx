@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'preact/hooks';
+import { bestAttempt, currentStreak, dayKey, latestAttempt, loadProgress, subscribe, unitKey } from '../lib/progress';
+import type { ProgressStore, QuizAttempt } from '../lib/progress';
+
+interface UnitInfo {
+  id: string;
+  title: string;
+  questionCount: number;
+}
+
+interface ChapterInfo {
+  id: number;
+  title: string;
+  icon: string;
+  units: UnitInfo[];
+}
+
+interface Props {
+  chapters: ChapterInfo[];
+  baseUrl: string;
+}
+
+const CALENDAR_WEEKS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function percent(attempt: QuizAttempt | undefined, questionCount: number): number | null {
+  if (!attempt) return null;
+  const total = attempt.total || questionCount;
+  return total ? Math.round((attempt.score / total) * 100) : null;
+}
+
+function scoreColor(pct: number): string {
+  return pct >= 80 ? '#5BA87A' : pct >= 60 ? '#D4A853' : '#E85D5D';
+}
+
+function ScoreCell({ attempt, questionCount }: { attempt: QuizAttempt | undefined; questionCount: number }) {
+  const pct = percent(attempt, questionCount);
+  if (!attempt || pct === null) return <span style={{ color: '#D4C4B5' }}>—</span>;
+  return (
+    <span style={{ color: scoreColor(pct) }}>
+      {attempt.score}/{attempt.total || questionCount}
+      <span class="ml-1 text-xs" style={{ color: '#9B8B7E' }}>({pct}%)</span>
+    </span>
+  );
+}
+
+function ActivityCalendar({ activity }: { activity: Record<string, number> }) {
+  const today = new Date();
+  today.setHours(12, 0, 0, 0);
+  // Start on the Sunday that opens the first week shown
+  const start = new Date(today.getTime() - ((CALENDAR_WEEKS - 1) * 7 + today.getDay()) * DAY_MS);
+  const weeks: { key: string; count: number; future: boolean }[][] = [];
+  for (let w = 0; w < CALENDAR_WEEKS; w++) {
+    const week = [];
+    for (let d = 0; d < 7; d++) {
+      const time = start.getTime() + (w * 7 + d) * DAY_MS;
+      const key = dayKey(time);
+      week.push({ key, count: activity[key] || 0, future: time > today.getTime() });
+    }
+    weeks.push(week);
+  }
+
+  const shade = (count: number) =>
+    count === 0 ? '#F5F0EB' : count < 5 ? '#D4EDDA' : count < 20 ? '#A8D5BA' : count < 50 ? '#7AC19A' : '#5BA87A';
+
+  return (
+    <div class="flex gap-1 overflow-x-auto">
+      {weeks.map((week, w) => (
+        <div key={w} class="flex flex-col gap-1">
+          {week.map((day) => (
+            <div
+              key={day.key}
+              class="w-3.5 h-3.5 rounded-sm"
+              title={`${day.key}：${day.count} 次練習`}
+              style={{ background: day.future ? 'transparent' : shade(day.count) }}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ProgressDashboard({ chapters, baseUrl }: Props) {
+  const [store, setStore] = useState<ProgressStore | null>(null);
+
+  useEffect(() => {
+    setStore(loadProgress());
+    return subscribe(setStore);
+  }, []);
+
+  if (!store) {
+    return <p class="text-sm text-center py-10" style={{ color: '#9B8B7E' }}>載入學習紀錄中…</p>;
+  }
+
+  const rows = chapters.flatMap((ch) =>
+    ch.units.map((unit, index) => {
+      const progress = store.units[unitKey(ch.id, unit.id)];
+      return {
+        chapterId: ch.id,
+        index,
+        unit,
+        completed: Boolean(progress?.completed),
+        best: bestAttempt(progress, unit.questionCount),
+        latest: latestAttempt(progress),
+      };
+    })
+  );
+  const completedCount = rows.filter((r) => r.completed).length;
+  const attemptCount = Object.values(store.units).reduce((sum, u) => sum + u.attempts.length, 0);
+  const activeDays = Object.keys(store.activity || {}).length;
+  const weakest = rows
+    .filter((r) => r.best)
+    .map((r) => ({ ...r, pct: percent(r.best, r.unit.questionCount) }))
+    .filter((r): r is typeof r & { pct: number } => r.pct !== null && r.pct < 100)
+    .sort((a, b) => a.pct - b.pct)
+    .slice(0, 5);
+
+  const stats = [
+    { label: '已完成單元', value: `${completedCount} / ${rows.length}`, color: '#5BA87A' },
+    { label: '連續學習', value: `${currentStreak(store)} 天`, color: '#D4737D' },
+    { label: '學習天數', value: `${activeDays} 天`, color: '#D4A853' },
+    { label: '測驗次數', value: `${attemptCount} 次`, color: '#6B5B4E' },
+  ];
+
+  return (
+    <div class="space-y-8">
+      {/* Summary */}
+      <div class="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        {stats.map((s) => (
+          <div key={s.label} class="bg-white rounded-2xl border p-4 text-center" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+            <div class="text-xl font-bold" style={{ color: s.color }}>{s.value}</div>
+            <div class="text-xs mt-1" style={{ color: '#9B8B7E' }}>{s.label}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Activity */}
+      <section class="bg-white rounded-2xl border p-5" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+        <h2 class="text-base font-bold mb-4" style={{ color: '#3D3229' }}>📅 最近 {CALENDAR_WEEKS} 週的學習紀錄</h2>
+        <ActivityCalendar activity={store.activity || {}} />
+      </section>
+
+      {/* Weakest units */}
+      {weakest.length > 0 && (
+        <section class="bg-white rounded-2xl border p-5" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+          <h2 class="text-base font-bold mb-4" style={{ color: '#3D3229' }}>💪 需要加強的單元</h2>
+          <ul class="space-y-2">
+            {weakest.map((r) => (
+              <li key={`${r.chapterId}-${r.unit.id}`} class="flex items-center gap-3 text-sm">
+                <a href={`${baseUrl}chapters/${r.chapterId}/${r.unit.id}`} class="flex-1 truncate hover:underline" style={{ color: '#3D3229' }}>
+                  第{r.chapterId}章・{r.unit.title}
+                </a>
+                <span class="font-medium" style={{ color: scoreColor(r.pct) }}>最佳 {r.pct}%</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {/* Per chapter */}
+      {chapters.map((ch) => {
+        const chapterRows = rows.filter((r) => r.chapterId === ch.id);
+        const done = chapterRows.filter((r) => r.completed).length;
+        const pct = Math.round((done / chapterRows.length) * 100);
+        return (
+          <section key={ch.id} class="bg-white rounded-2xl border overflow-hidden" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+            <div class="px-5 py-4 flex items-center gap-3" style={{ background: '#F0FAF4' }}>
+              <span class="text-2xl">{ch.icon}</span>
+              <div class="flex-1 min-w-0">
+                <a href={`${baseUrl}chapters/${ch.id}`} class="font-bold truncate block hover:underline" style={{ color: '#3D3229' }}>
+                  第 {ch.id} 章 {ch.title}
+                </a>
+                <div class="flex items-center gap-2 mt-1">
+                  <div class="flex-1 h-2 rounded-full" style={{ background: '#E8DDD4' }}>
+                    <div class="h-2 rounded-full" style={{ width: `${pct}%`, background: '#5BA87A' }} />
+                  </div>
+                  <span class="text-xs shrink-0" style={{ color: '#6B5B4E' }}>{done}/{chapterRows.length}</span>
+                </div>
+              </div>
+            </div>
+            <table class="w-full text-sm">
+              <thead>
+                <tr class="text-xs" style={{ color: '#9B8B7E' }}>
+                  <th class="text-left font-medium px-5 py-2">單元</th>
+                  <th class="text-right font-medium px-2 py-2 whitespace-nowrap">最佳</th>
+                  <th class="text-right font-medium px-5 py-2 whitespace-nowrap">最近</th>
+                </tr>
+              </thead>
+              <tbody>
+                {chapterRows.map((r) => (
+                  <tr key={r.unit.id} style={{ borderTop: '1px solid #F5F0EB' }}>
+                    <td class="px-5 py-2">
+                      <a href={`${baseUrl}chapters/${ch.id}/${r.unit.id}`} class="hover:underline" style={{ color: r.completed ? '#3D3229' : '#9B8B7E' }}>
+                        {r.completed ? '✓ ' : ''}單元 {r.index + 1} — {r.unit.title}
+                      </a>
+                    </td>
+                    <td class="text-right px-2 py-2 whitespace-nowrap">
+                      <ScoreCell attempt={r.best} questionCount={r.unit.questionCount} />
+                    </td>
+                    <td class="text-right px-5 py-2 whitespace-nowrap">
+                      <ScoreCell attempt={r.latest} questionCount={r.unit.questionCount} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
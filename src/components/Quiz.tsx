@@ -1,32 +1,357 @@
 import { useState } from 'preact/hooks';
+import { recordQuizAttempt } from '../lib/progress';
+import { audioUrl, playAudio } from '../lib/audio';
+import { normalizeAnswer } from '../lib/kana';
+import type {
+  ChoiceQuestion,
+  FillQuestion,
+  ListeningQuestion,
+  MatchQuestion,
+  OrderQuestion,
+  QuizQuestion,
+} from '../data/loadUnit';
 
-interface Question {
-  question: string;
-  options: string[];
-  correct: number;
-  explanation: string;
+interface Props {
+  questions: QuizQuestion[];
+  unitKey?: string;
+  title?: string;
 }
 
-interface Props {
-  questions: Question[];
-  unitId?: string;
+interface InputProps<Q> {
+  q: Q;
+  answered: boolean;
+  onAnswer: (correct: boolean) => void;
 }
 
-export default function Quiz({ questions, unitId }: Props) {
-  const [currentQ, setCurrentQ] = useState(0);
+const jpFont = "'Noto Sans JP', 'Noto Sans TC', sans-serif";
+const neutral = { borderColor: 'rgba(232, 221, 212, 0.5)', background: 'white', color: '#3D3229' };
+const right = { borderColor: '#5BA87A', background: '#F0FAF4', color: '#3D8B6E' };
+const wrong = { borderColor: '#E85D5D', background: '#FFF5F5', color: '#E85D5D' };
+const picked = { borderColor: '#D4A853', background: '#FFFBF0', color: '#3D3229' };
+
+// Shuffles with a seed taken from the question text so the server render and
+// the hydrated island agree; never returns the original (answer) order.
+function seededShuffle<T>(items: T[], seed: string): T[] {
+  let h = 2166136261;
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 16777619);
+  const random = () => {
+    h = Math.imul(h ^ (h >>> 15), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return ((h ^= h >>> 16) >>> 0) / 4294967296;
+  };
+  const order = items.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.length > 1 && order.every((v, i) => v === i)) order.push(order.shift()!);
+  return order.map((i) => items[i]);
+}
+
+function CheckButton({ disabled, onClick }: { disabled: boolean; onClick?: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      class="mt-4 w-full py-2.5 rounded-xl text-sm font-medium text-white transition-colors disabled:opacity-50"
+      style={{ background: '#D4A853' }}
+    >
+      確認答案
+    </button>
+  );
+}
+
+function ChoiceInput({ q, answered, onAnswer }: InputProps<ChoiceQuestion | ListeningQuestion>) {
   const [selected, setSelected] = useState<number | null>(null);
+
+  const handleSelect = (index: number) => {
+    if (answered) return;
+    setSelected(index);
+    onAnswer(index === q.correct);
+  };
+
+  return (
+    <div class="space-y-2.5">
+      {q.options.map((opt, i) => {
+        const style = answered && i === q.correct ? right : answered && i === selected ? wrong : i === selected ? picked : neutral;
+        return (
+          <button
+            key={i}
+            onClick={() => handleSelect(i)}
+            class="w-full text-left px-4 py-3 rounded-xl border transition-all text-sm font-medium"
+            style={style}
+            disabled={answered}
+          >
+            <span class="mr-2" style={{ color: '#9B8B7E' }}>
+              {String.fromCharCode(65 + i)}.
+            </span>
+            {opt}
+            {answered && i === q.correct && <span class="float-right">✅</span>}
+            {answered && i === selected && i !== q.correct && <span class="float-right">❌</span>}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ListeningInput(props: InputProps<ListeningQuestion>) {
+  return (
+    <div>
+      <button
+        onClick={() => playAudio(audioUrl(props.q.audio))}
+        class="mb-4 w-full py-3 rounded-xl text-sm font-medium transition-colors"
+        style={{ background: '#F0FAF4', color: '#3D8B6E' }}
+      >
+        🔊 播放音檔
+      </button>
+      <ChoiceInput {...props} />
+    </div>
+  );
+}
+
+function FillInput({ q, answered, onAnswer }: InputProps<FillQuestion>) {
+  const [value, setValue] = useState('');
+  const [correct, setCorrect] = useState(false);
+
+  const submit = (e: Event) => {
+    e.preventDefault();
+    if (answered || !value.trim()) return;
+    const typed = normalizeAnswer(value);
+    const ok = q.answers.some((a) => a.trim() === value.trim() || normalizeAnswer(a) === typed);
+    setCorrect(ok);
+    onAnswer(ok);
+  };
+
+  return (
+    <form onSubmit={submit}>
+      <input
+        type="text"
+        value={value}
+        onInput={(e) => setValue((e.target as HTMLInputElement).value)}
+        disabled={answered}
+        placeholder="輸入答案（可用假名或羅馬拼音）"
+        autoComplete="off"
+        autoCapitalize="off"
+        spellcheck={false}
+        class="w-full px-4 py-3 rounded-xl border text-sm outline-none"
+        style={{ ...(answered ? (correct ? right : wrong) : neutral), fontFamily: jpFont }}
+      />
+      {answered ? (
+        <p class="mt-3 text-sm" style={{ color: correct ? '#3D8B6E' : '#E85D5D' }}>
+          {correct ? '✅ 答對了！' : '❌ 正確答案：'}
+          {!correct && <span style={{ fontFamily: jpFont }}>{q.answers.join(' / ')}</span>}
+        </p>
+      ) : (
+        <CheckButton disabled={!value.trim()} />
+      )}
+    </form>
+  );
+}
+
+function OrderInput({ q, answered, onAnswer }: InputProps<OrderQuestion>) {
+  const [pool] = useState(() => seededShuffle(q.tiles, q.question));
+  // Indexes into `pool`, in the order the learner placed them
+  const [placed, setPlaced] = useState<number[]>([]);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [correct, setCorrect] = useState(false);
+
+  const place = (i: number, before?: number) => {
+    if (answered) return;
+    const rest = placed.filter((p) => p !== i);
+    const at = before === undefined ? rest.length : rest.indexOf(before);
+    setPlaced([...rest.slice(0, at), i, ...rest.slice(at)]);
+  };
+  const unplace = (i: number) => !answered && setPlaced(placed.filter((p) => p !== i));
+
+  const check = () => {
+    const ok = placed.map((i) => pool[i]).join('') === q.tiles.join('');
+    setCorrect(ok);
+    onAnswer(ok);
+  };
+
+  const tileClass = 'px-3 py-2 rounded-lg border text-sm font-medium select-none';
+  const dragProps = (i: number) => ({
+    draggable: !answered,
+    onDragStart: (e: DragEvent) => {
+      setDragging(i);
+      e.dataTransfer?.setData('text/plain', String(i));
+    },
+    onDragEnd: () => setDragging(null),
+  });
+
+  return (
+    <div>
+      <div
+        class="min-h-14 p-2 rounded-xl border-2 border-dashed flex flex-wrap gap-2"
+        style={{ borderColor: answered ? (correct ? '#5BA87A' : '#E85D5D') : '#E8DDD4' }}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (dragging !== null) place(dragging);
+        }}
+      >
+        {placed.length === 0 && <span class="text-xs self-center px-2" style={{ color: '#9B8B7E' }}>點選或拖曳下方字卡排出正確順序</span>}
+        {placed.map((i) => (
+          <button
+            key={i}
+            {...dragProps(i)}
+            onClick={() => unplace(i)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              if (dragging !== null && dragging !== i) place(dragging, i);
+            }}
+            class={tileClass}
+            style={{ ...picked, fontFamily: jpFont, opacity: dragging === i ? 0.4 : 1 }}
+          >
+            {pool[i]}
+          </button>
+        ))}
+      </div>
+
+      <div
+        class="mt-3 flex flex-wrap gap-2 min-h-10"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          if (dragging !== null) unplace(dragging);
+        }}
+      >
+        {pool.map((tile, i) =>
+          placed.includes(i) ? null : (
+            <button key={i} {...dragProps(i)} onClick={() => place(i)} class={tileClass} style={{ ...neutral, fontFamily: jpFont }}>
+              {tile}
+            </button>
+          )
+        )}
+      </div>
+
+      {answered ? (
+        <p class="mt-3 text-sm" style={{ color: correct ? '#3D8B6E' : '#E85D5D' }}>
+          {correct ? '✅ 答對了！' : '❌ 正確順序：'}
+          {!correct && <span style={{ fontFamily: jpFont }}>{q.tiles.join(' ')}</span>}
+        </p>
+      ) : (
+        <CheckButton disabled={placed.length < pool.length} onClick={check} />
+      )}
+    </div>
+  );
+}
+
+function MatchInput({ q, answered, onAnswer }: InputProps<MatchQuestion>) {
+  const [rights] = useState(() => seededShuffle(q.pairs.map((p) => p.right), q.question));
+  const [active, setActive] = useState<number | null>(null);
+  // Left index → index into `rights`
+  const [links, setLinks] = useState<Record<number, number>>({});
+
+  const isCorrect = (left: number) => rights[links[left]] === q.pairs[left].right;
+
+  const link = (r: number) => {
+    if (answered || active === null) return;
+    const next: Record<number, number> = {};
+    for (const [l, v] of Object.entries(links)) if (v !== r) next[Number(l)] = v;
+    next[active] = r;
+    setLinks(next);
+    setActive(null);
+  };
+
+  const leftStyle = (i: number) => {
+    if (answered) return isCorrect(i) ? right : wrong;
+    if (active === i) return picked;
+    return links[i] !== undefined ? { ...neutral, background: '#F5F0EB' } : neutral;
+  };
+  const pairNumber = (r: number) => {
+    const left = Object.keys(links).find((l) => links[Number(l)] === r);
+    return left === undefined ? null : Number(left) + 1;
+  };
+
+  const check = () => onAnswer(q.pairs.every((_, i) => isCorrect(i)));
+
+  return (
+    <div>
+      <div class="grid grid-cols-2 gap-3">
+        <div class="space-y-2">
+          {q.pairs.map((pair, i) => (
+            <button
+              key={i}
+              onClick={() => !answered && setActive(active === i ? null : i)}
+              class="w-full text-left px-3 py-2.5 rounded-xl border text-sm font-medium"
+              style={{ ...leftStyle(i), fontFamily: jpFont }}
+              disabled={answered}
+            >
+              <span class="mr-2" style={{ color: '#9B8B7E' }}>{i + 1}.</span>
+              {pair.left}
+            </button>
+          ))}
+        </div>
+        <div class="space-y-2">
+          {rights.map((text, r) => {
+            const n = pairNumber(r);
+            return (
+              <button
+                key={r}
+                onClick={() => link(r)}
+                class="w-full text-left px-3 py-2.5 rounded-xl border text-sm font-medium"
+                style={n !== null && !answered ? { ...neutral, background: '#F5F0EB' } : neutral}
+                disabled={answered}
+              >
+                {n !== null && <span class="mr-2" style={{ color: '#D4A853' }}>{n}.</span>}
+                {text}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {answered ? (
+        <ul class="mt-3 text-sm space-y-1">
+          {q.pairs.map((pair, i) => (
+            <li key={i} style={{ color: isCorrect(i) ? '#3D8B6E' : '#E85D5D' }}>
+              {isCorrect(i) ? '✅' : '❌'} <span style={{ fontFamily: jpFont }}>{pair.left}</span> → {pair.right}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <>
+          <p class="mt-3 text-xs" style={{ color: '#9B8B7E' }}>先點左邊，再點右邊對應的答案</p>
+          <CheckButton disabled={Object.keys(links).length < q.pairs.length} onClick={check} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function QuestionInput({ q, ...rest }: InputProps<QuizQuestion>) {
+  switch (q.type) {
+    case 'fill':
+      return <FillInput q={q} {...rest} />;
+    case 'order':
+      return <OrderInput q={q} {...rest} />;
+    case 'match':
+      return <MatchInput q={q} {...rest} />;
+    case 'listening':
+      return <ListeningInput q={q} {...rest} />;
+    default:
+      return <ChoiceInput q={q} {...rest} />;
+  }
+}
+
+export default function Quiz({ questions, unitKey, title = '小測驗' }: Props) {
+  const [currentQ, setCurrentQ] = useState(0);
   const [score, setScore] = useState(0);
   const [showResult, setShowResult] = useState(false);
   const [answered, setAnswered] = useState(false);
+  const [round, setRound] = useState(0);
 
   const q = questions[currentQ];
   const total = questions.length;
 
-  const handleSelect = (index: number) => {
+  const handleAnswer = (correct: boolean) => {
     if (answered) return;
-    setSelected(index);
     setAnswered(true);
-    if (index === q.correct) {
+    if (correct) {
       setScore(score + 1);
     }
   };
@@ -34,26 +359,20 @@ export default function Quiz({ questions, unitId }: Props) {
   const nextQuestion = () => {
     if (currentQ < total - 1) {
       setCurrentQ(currentQ + 1);
-      setSelected(null);
       setAnswered(false);
     } else {
       setShowResult(true);
-      if (unitId) {
-        try {
-          const progress = JSON.parse(localStorage.getItem('jlearn-progress') || '{}');
-          progress[unitId] = { completed: true, quizScore: score + (selected === q.correct ? 1 : 0) };
-          localStorage.setItem('jlearn-progress', JSON.stringify(progress));
-        } catch {}
-      }
+      // `score` already includes this question: handleAnswer counted it
+      if (unitKey) recordQuizAttempt(unitKey, score, total);
     }
   };
 
   const restart = () => {
     setCurrentQ(0);
-    setSelected(null);
     setScore(0);
     setShowResult(false);
     setAnswered(false);
+    setRound(round + 1);
   };
 
   if (showResult) {
@@ -103,7 +422,7 @@ export default function Quiz({ questions, unitId }: Props) {
     <section class="my-10">
       <h2 class="flex items-center gap-2 text-xl font-bold mb-5" style={{ color: '#3D3229' }}>
         <span class="w-8 h-8 rounded-lg flex items-center justify-center text-sm" style={{ background: '#E8D5F5' }}>🧠</span>
-        小測驗
+        {title}
       </h2>
 
       <div class="bg-white rounded-2xl border p-6 max-w-lg mx-auto" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
@@ -124,50 +443,12 @@ export default function Quiz({ questions, unitId }: Props) {
         </div>
 
         {/* Question */}
-        <h3 class="text-lg font-semibold mb-5" style={{ color: '#3D3229', fontFamily: "'Noto Sans JP', 'Noto Sans TC', sans-serif" }}>
+        <h3 class="text-lg font-semibold mb-5" style={{ color: '#3D3229', fontFamily: jpFont }}>
           {q.question}
         </h3>
 
-        {/* Options */}
-        <div class="space-y-2.5">
-          {q.options.map((opt, i) => {
-            let borderColor = 'rgba(232, 221, 212, 0.5)';
-            let bgColor = 'white';
-            let textColor = '#3D3229';
-
-            if (answered) {
-              if (i === q.correct) {
-                borderColor = '#5BA87A';
-                bgColor = '#F0FAF4';
-                textColor = '#3D8B6E';
-              } else if (i === selected && i !== q.correct) {
-                borderColor = '#E85D5D';
-                bgColor = '#FFF5F5';
-                textColor = '#E85D5D';
-              }
-            } else if (i === selected) {
-              borderColor = '#D4A853';
-              bgColor = '#FFFBF0';
-            }
-
-            return (
-              <button
-                key={i}
-                onClick={() => handleSelect(i)}
-                class="w-full text-left px-4 py-3 rounded-xl border transition-all text-sm font-medium"
-                style={{ borderColor, background: bgColor, color: textColor }}
-                disabled={answered}
-              >
-                <span class="mr-2" style={{ color: '#9B8B7E' }}>
-                  {String.fromCharCode(65 + i)}.
-                </span>
-                {opt}
-                {answered && i === q.correct && <span class="float-right">✅</span>}
-                {answered && i === selected && i !== q.correct && <span class="float-right">❌</span>}
-              </button>
-            );
-          })}
-        </div>
+        {/* Answer */}
+        <QuestionInput key={`${round}-${currentQ}`} q={q} answered={answered} onAnswer={handleAnswer} />
 
         {/* Explanation */}
         {answered && (
@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'preact/hooks';
+import Flashcard from './Flashcard';
+import { isDue, loadDeck } from '../lib/srs';
+import type { CardState } from '../lib/srs';
+import type { ReviewCard } from '../data/buildReviewDeck';
+
+type UnitType = ReviewCard['unitType'];
+
+interface Props {
+  baseUrl: string;
+  chapters: { id: number; title: string }[];
+}
+
+const unitTypeLabels: Record<UnitType, string> = {
+  lesson: '課程',
+  culture: '文化小教室',
+  practice: '綜合練習',
+  homework: '作業',
+  bonus: 'BONUS',
+};
+
+const limits = [10, 20, 50, 100];
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export default function Review({ baseUrl, chapters }: Props) {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const [deck, setDeck] = useState<Record<string, CardState>>({});
+  const [loaded, setLoaded] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [chapterId, setChapterId] = useState<number | 'all'>('all');
+  const [unitType, setUnitType] = useState<UnitType | 'all'>('all');
+  const [limit, setLimit] = useState(20);
+  const [session, setSession] = useState<ReviewCard[] | null>(null);
+  const [sessionKey, setSessionKey] = useState(0);
+
+  useEffect(() => {
+    fetch(`${baseUrl}review.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<ReviewCard[]>;
+      })
+      .then((all) => {
+        setCards(all);
+        setDeck(loadDeck());
+        setLoaded(true);
+      })
+      .catch((err) => {
+        console.warn('[jlearn] could not load review cards', err);
+        setLoadFailed(true);
+      });
+  }, []);
+
+  const presentTypes = (Object.keys(unitTypeLabels) as UnitType[]).filter((t) => cards.some((c) => c.unitType === t));
+  const due = cards.filter((c) =>
+    (chapterId === 'all' || c.chapterId === chapterId) &&
+    (unitType === 'all' || c.unitType === unitType) &&
+    isDue(deck[c.id])
+  );
+  // Cards already in the review cycle come before brand-new ones
+  const reviewing = due.filter((c) => deck[c.id]);
+  const fresh = due.filter((c) => !deck[c.id]);
+
+  const start = () => {
+    setSession([...shuffle(reviewing), ...shuffle(fresh)].slice(0, limit));
+    setSessionKey(sessionKey + 1);
+  };
+
+  const finish = () => {
+    setDeck(loadDeck());
+    setSession(null);
+  };
+
+  const selectStyle = { borderColor: 'rgba(232, 221, 212, 0.8)', color: '#3D3229' };
+
+  if (session) {
+    return (
+      <div>
+        <Flashcard key={sessionKey} cards={session} />
+        <div class="text-center">
+          <button
+            onClick={finish}
+            class="px-5 py-2.5 rounded-xl text-sm font-medium transition-colors"
+            style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+          >
+            結束本輪複習
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div class="bg-white rounded-2xl border p-6" style={{ borderColor: 'rgba(232, 221, 212, 0.5)' }}>
+      <div class="grid sm:grid-cols-3 gap-3 mb-6">
+        <label class="text-xs font-medium" style={{ color: '#9B8B7E' }}>
+          章節
+          <select
+            class="mt-1 w-full px-3 py-2 rounded-xl border text-sm bg-white"
+            style={selectStyle}
+            value={String(chapterId)}
+            onChange={(e) => {
+              const value = (e.target as HTMLSelectElement).value;
+              setChapterId(value === 'all' ? 'all' : Number(value));
+            }}
+          >
+            <option value="all">全部章節</option>
+            {chapters.map((ch) => (
+              <option key={ch.id} value={String(ch.id)}>第 {ch.id} 章 {ch.title}</option>
+            ))}
+          </select>
+        </label>
+        <label class="text-xs font-medium" style={{ color: '#9B8B7E' }}>
+          單元類型
+          <select
+            class="mt-1 w-full px-3 py-2 rounded-xl border text-sm bg-white"
+            style={selectStyle}
+            value={unitType}
+            onChange={(e) => setUnitType((e.target as HTMLSelectElement).value as UnitType | 'all')}
+          >
+            <option value="all">全部類型</option>
+            {presentTypes.map((t) => (
+              <option key={t} value={t}>{unitTypeLabels[t]}</option>
+            ))}
+          </select>
+        </label>
+        <label class="text-xs font-medium" style={{ color: '#9B8B7E' }}>
+          每輪張數
+          <select
+            class="mt-1 w-full px-3 py-2 rounded-xl border text-sm bg-white"
+            style={selectStyle}
+            value={String(limit)}
+            onChange={(e) => setLimit(Number((e.target as HTMLSelectElement).value))}
+          >
+            {limits.map((n) => (
+              <option key={n} value={String(n)}>{n} 張</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div class="grid grid-cols-2 gap-3 mb-6 text-center">
+        <div class="rounded-xl py-4" style={{ background: '#FFFBF0' }}>
+          <div class="text-2xl font-bold" style={{ color: '#D4A853' }}>{loaded ? reviewing.length : '–'}</div>
+          <div class="text-xs" style={{ color: '#9B8B7E' }}>到期複習</div>
+        </div>
+        <div class="rounded-xl py-4" style={{ background: '#F0FAF4' }}>
+          <div class="text-2xl font-bold" style={{ color: '#5BA87A' }}>{loaded ? fresh.length : '–'}</div>
+          <div class="text-xs" style={{ color: '#9B8B7E' }}>尚未學習</div>
+        </div>
+      </div>
+
+      {loadFailed ? (
+        <p class="text-sm text-center py-2" style={{ color: '#E85D5D' }}>無法載入單字卡，請檢查網路連線後重新整理頁面</p>
+      ) : loaded && due.length === 0 ? (
+        <p class="text-sm text-center py-2" style={{ color: '#6B5B4E' }}>🎉 今天的卡片都複習完了，明天再來吧！</p>
+      ) : (
+        <button
+          onClick={start}
+          disabled={!loaded}
+          class="w-full py-3 rounded-xl text-sm font-medium text-white transition-colors disabled:opacity-50"
+          style={{ background: '#5BA87A' }}
+        >
+          開始複習（{Math.min(limit, due.length)} 張）
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,332 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import Ruby from './Ruby';
+import { audioUrl, playAudio, stopAudio } from '../lib/audio';
+import { recordActivity } from '../lib/progress';
+import { dialogueSpeakers, lineOptions, matchTypedLine } from '../lib/rolePlay';
+import type { LineMatch, RolePlayLine } from '../lib/rolePlay';
+
+interface Props {
+  lines: RolePlayLine[];
+}
+
+type AnswerMode = 'choose' | 'type';
+
+interface Turn {
+  /** Options offered in choose mode */
+  options: string[];
+  /** Options already picked wrongly */
+  missed: string[];
+  typed: string;
+  /** Set once the line has been answered and revealed */
+  match: LineMatch | null;
+}
+
+// Pause between the other side's consecutive lines
+const PARTNER_DELAY_MS = 1200;
+const jpFont = "'Noto Sans JP', sans-serif";
+
+const matchLabels: Record<LineMatch, { label: string; color: string }> = {
+  exact: { label: '✓ 完全正確！', color: '#5BA87A' },
+  close: { label: '△ 差一點，對照一下原句', color: '#D4A853' },
+  wrong: { label: '✗ 再看一次原句', color: '#E85D5D' },
+};
+
+export default function RolePlay({ lines }: Props) {
+  const speakers = dialogueSpeakers(lines);
+  const [role, setRole] = useState<string | null>(null);
+  const [mode, setMode] = useState<AnswerMode>('choose');
+  const [hideChinese, setHideChinese] = useState(false);
+  const [hideJapanese, setHideJapanese] = useState(false);
+  const [peeked, setPeeked] = useState<number[]>([]);
+  // Lines before `shown` are on screen; the one at `shown` is next
+  const [shown, setShown] = useState(0);
+  const [turn, setTurn] = useState<Turn | null>(null);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+  const rootRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const continueRef = useRef<HTMLButtonElement>(null);
+
+  // While playing, the static transcript would give the answers away (see global.css)
+  useEffect(() => {
+    rootRef.current?.closest('[data-dialogue]')?.toggleAttribute('data-role-play', role !== null);
+  }, [role]);
+
+  useEffect(() => () => stopAudio(), []);
+
+  // Reveal the other side's lines one by one until it's the learner's turn
+  useEffect(() => {
+    if (role === null || shown >= lines.length || turn) return;
+    const line = lines[shown];
+    if (line.speaker === role) {
+      setTurn({ options: lineOptions(lines, shown), missed: [], typed: '', match: null });
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (line.audio) playAudio(audioUrl(line.audio));
+      setShown(shown + 1);
+    }, shown === 0 ? 300 : PARTNER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [role, shown, turn]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    if (turn && turn.match === null && mode === 'type') inputRef.current?.focus();
+    if (turn?.match) continueRef.current?.focus({ preventScroll: true });
+  }, [shown, turn?.match, turn === null]);
+
+  const start = (speaker: string) => {
+    stopAudio();
+    setRole(speaker);
+    setShown(0);
+    setTurn(null);
+    setPeeked([]);
+    setScore({ correct: 0, total: 0 });
+  };
+
+  const finishTurn = (match: LineMatch) => {
+    const line = lines[shown];
+    setTurn((t) => t && { ...t, match });
+    setScore((s) => ({ correct: s.correct + (match === 'wrong' ? 0 : 1), total: s.total + 1 }));
+    recordActivity();
+    if (line.audio) playAudio(audioUrl(line.audio));
+  };
+
+  const advance = () => {
+    setTurn(null);
+    setShown(shown + 1);
+  };
+
+  const pick = (option: string) => {
+    if (!turn || turn.match !== null) return;
+    if (option === lines[shown].japanese) {
+      // A line only counts as right if it was picked first time
+      finishTurn(turn.missed.length === 0 ? 'exact' : 'wrong');
+      return;
+    }
+    setTurn({ ...turn, missed: [...turn.missed, option] });
+  };
+
+  const submitTyped = (e: Event) => {
+    e.preventDefault();
+    if (!turn) return;
+    if (turn.match !== null) {
+      advance();
+      return;
+    }
+    if (!turn.typed.trim()) return;
+    finishTurn(matchTypedLine(lines[shown].japanese, turn.typed));
+  };
+
+  const toggle = (label: string, on: boolean, set: (v: boolean) => void) => (
+    <button
+      onClick={() => {
+        set(!on);
+        setPeeked([]);
+      }}
+      aria-pressed={on}
+      class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors"
+      style={on ? { background: '#5BA87A', color: 'white' } : { background: '#F5F0EB', color: '#6B5B4E' }}
+    >
+      {label}
+    </button>
+  );
+
+  if (role === null) {
+    return (
+      <div ref={rootRef} class="flex flex-wrap items-center gap-2 max-w-lg mx-auto mb-4 text-sm" style={{ color: '#6B5B4E' }}>
+        <span>🎭 角色扮演：</span>
+        {speakers.map((s) => (
+          <button
+            key={s}
+            onClick={() => start(s)}
+            class="px-3 py-1.5 rounded-full text-xs font-medium transition-colors hover:opacity-80"
+            style={{ background: '#F0FAF4', color: '#3D8B6E' }}
+          >
+            扮演「{s}」
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  const finished = shown >= lines.length && !turn;
+  const visible = lines.slice(0, turn?.match ? shown + 1 : shown);
+  const leftSpeaker = speakers[0];
+
+  return (
+    <div ref={rootRef} class="max-w-lg mx-auto">
+      <div class="flex flex-wrap items-center gap-2 mb-4">
+        <div class="flex rounded-full p-0.5" style={{ background: '#F5F0EB' }}>
+          {(['choose', 'type'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              class="px-3 py-1 rounded-full text-xs font-medium transition-colors"
+              style={mode === m ? { background: '#fff', color: '#3D3229' } : { color: '#9B8B7E' }}
+            >
+              {m === 'choose' ? '選擇台詞' : '輸入台詞'}
+            </button>
+          ))}
+        </div>
+        {toggle('隱藏中文', hideChinese, setHideChinese)}
+        {toggle('隱藏日文', hideJapanese, setHideJapanese)}
+        <button onClick={() => setRole(null)} class="ml-auto text-xs hover:underline" style={{ color: '#9B8B7E' }}>
+          結束練習
+        </button>
+      </div>
+
+      <div class="space-y-3">
+        {visible.map((line, i) => {
+          const isLeft = line.speaker === leftSpeaker;
+          const mine = line.speaker === role;
+          const peek = peeked.includes(i);
+          // Your own lines stay readable: they're what you just produced
+          const hideJp = hideJapanese && !mine && !peek;
+          const hideZh = hideChinese && !peek;
+          return (
+            <div key={i} class={`flex ${isLeft ? 'justify-start' : 'justify-end'}`}>
+              <div class="max-w-[80%]">
+                <p class={`text-xs font-medium mb-1 ${isLeft ? '' : 'text-right'}`} style={{ color: isLeft ? '#3D8B6E' : '#D4737D' }}>
+                  {line.speaker}
+                </p>
+                <div
+                  class={`rounded-2xl px-4 py-3 ${isLeft ? 'rounded-tl-sm' : 'rounded-tr-sm'}`}
+                  style={{ background: isLeft ? '#F0FAF4' : '#FFF5F5' }}
+                >
+                  {hideJp || hideZh ? (
+                    <button
+                      onClick={() => setPeeked([...peeked, i])}
+                      class="block text-left w-full"
+                      title="點一下顯示"
+                    >
+                      {hideJp ? (
+                        <span class="text-sm tracking-widest" style={{ color: '#B5A08A' }}>
+                          ・・・・・・
+                        </span>
+                      ) : (
+                        <span class="text-sm font-medium" style={{ color: '#3D3229', fontFamily: jpFont }} lang="ja">
+                          <Ruby text={line.japanese} />
+                        </span>
+                      )}
+                      {!hideZh && <span class="block text-xs mt-1" style={{ color: '#9B8B7E' }}>{line.chinese}</span>}
+                      <span class="block text-[10px] mt-1" style={{ color: '#B5A08A' }}>點一下顯示</span>
+                    </button>
+                  ) : (
+                    <>
+                      <p class="text-sm font-medium" style={{ color: '#3D3229', fontFamily: jpFont }} lang="ja">
+                        <Ruby text={line.japanese} />
+                      </p>
+                      <p class="text-xs mt-1" style={{ color: '#9B8B7E' }}>{line.chinese}</p>
+                    </>
+                  )}
+                  {line.audio && (
+                    <button onClick={() => playAudio(audioUrl(line.audio!))} class="text-xs mt-1 hover:underline" style={{ color: '#9B8B7E' }}>
+                      🔊 再聽一次
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {turn && (
+          <div class="rounded-2xl border p-4" style={{ borderColor: '#E8DDD4', background: '#FEFCFB' }}>
+            {turn.match === null ? (
+              <>
+                <p class="text-sm font-semibold mb-1" style={{ color: '#3D3229' }}>輪到你了，{role}會怎麼說？</p>
+                <p class="text-xs mb-3" style={{ color: '#9B8B7E' }}>
+                  {hideChinese ? '想想看這個情境下該說什麼' : `意思：${lines[shown].chinese}`}
+                </p>
+                {mode === 'choose' ? (
+                  <div class="space-y-2">
+                    {turn.options.map((option) => {
+                      const missed = turn.missed.includes(option);
+                      return (
+                        <button
+                          key={option}
+                          onClick={() => pick(option)}
+                          disabled={missed}
+                          class="block w-full text-left px-4 py-2.5 rounded-xl border text-sm transition-colors"
+                          style={{
+                            borderColor: missed ? '#E85D5D' : '#E8DDD4',
+                            background: missed ? '#FFF5F5' : '#fff',
+                            color: missed ? '#E85D5D' : '#3D3229',
+                            fontFamily: jpFont,
+                          }}
+                          lang="ja"
+                        >
+                          <Ruby text={option} />
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <form onSubmit={submitTyped} class="flex gap-2">
+                    <input
+                      ref={inputRef}
+                      value={turn.typed}
+                      onInput={(e) => setTurn({ ...turn, typed: (e.target as HTMLInputElement).value })}
+                      autocomplete="off"
+                      autocapitalize="off"
+                      spellcheck={false}
+                      placeholder="輸入你的台詞（日文或假名）"
+                      class="flex-1 min-w-0 px-4 py-2.5 rounded-xl border text-sm outline-none"
+                      style={{ borderColor: '#E8DDD4', color: '#3D3229', fontFamily: jpFont }}
+                      lang="ja"
+                    />
+                    <button type="submit" class="px-4 rounded-xl text-sm font-medium text-white shrink-0" style={{ background: '#5BA87A' }}>
+                      說出口
+                    </button>
+                  </form>
+                )}
+              </>
+            ) : (
+              <form onSubmit={submitTyped} class="flex flex-wrap items-center gap-3">
+                <div class="flex-1 min-w-0">
+                  <p class="text-sm font-semibold" style={{ color: matchLabels[turn.match].color }}>{matchLabels[turn.match].label}</p>
+                  {mode === 'type' && turn.match !== 'exact' && (
+                    <p class="text-xs mt-1" style={{ color: '#9B8B7E' }}>
+                      你的回答：<span style={{ fontFamily: jpFont }} lang="ja">{turn.typed}</span>
+                    </p>
+                  )}
+                </div>
+                <button
+                  type="submit"
+                  ref={continueRef}
+                  class="px-4 py-2 rounded-xl text-sm font-medium text-white"
+                  style={{ background: '#5BA87A' }}
+                >
+                  繼續 →
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+
+        {finished && (
+          <div class="text-center rounded-2xl p-5" style={{ background: '#F0FAF4' }}>
+            <p class="text-lg font-bold mb-1" style={{ color: '#3D3229' }}>🎉 對話完成！</p>
+            <p class="text-sm mb-4" style={{ color: '#6B5B4E' }}>
+              {score.total > 0 ? `你的 ${score.total} 句台詞答對了 ${score.correct} 句` : '這段對話裡這個角色沒有台詞'}
+            </p>
+            <div class="flex flex-wrap justify-center gap-2">
+              <button onClick={() => start(role)} class="px-4 py-2 rounded-xl text-sm font-medium text-white" style={{ background: '#5BA87A' }}>
+                再練一次
+              </button>
+              {speakers
+                .filter((s) => s !== role)
+                .map((s) => (
+                  <button key={s} onClick={() => start(s)} class="px-4 py-2 rounded-xl text-sm font-medium" style={{ background: '#fff', color: '#6B5B4E' }}>
+                    改扮演「{s}」
+                  </button>
+                ))}
+            </div>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+}
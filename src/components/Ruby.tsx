@@ -0,0 +1,21 @@
+import { parseFurigana } from '../lib/furigana';
+
+/** `{漢字|かんじ}` annotations as <ruby>, for islands; Furigana.astro does the same server-side. */
+export default function Ruby({ text }: { text: string }) {
+  return (
+    <>
+      {parseFurigana(text).map((segment, i) =>
+        segment.reading ? (
+          <ruby key={i}>
+            {segment.text}
+            <rp>(</rp>
+            <rt>{segment.reading}</rt>
+            <rp>)</rp>
+          </ruby>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
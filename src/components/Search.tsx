@@ -1,24 +1,46 @@
 import { useState, useEffect, useRef } from 'preact/hooks';
-
-interface SearchEntry {
-  chapterId: number;
-  chapterTitle: string;
-  unitId: string;
-  unitTitle: string;
-  type: 'vocab' | 'grammar' | 'dialogue';
-  text: string;
-  preview: string;
-}
+import { excerpt, fieldPreview, prepareIndex, search } from '../lib/search';
+import { anchorHref } from '../lib/anchors';
+import type { PreparedIndex } from '../lib/search';
+import type { SearchEntry, SearchIndexFile } from '../data/buildSearchIndex';
 
 interface Props {
-  index: SearchEntry[];
   baseUrl: string;
 }
 
+// One request per page load, shared by every open of the modal; a failed
+// request is forgotten so the next open retries.
+let indexRequest: Promise<PreparedIndex<SearchEntry>> | null = null;
+
+function loadIndex(baseUrl: string): Promise<PreparedIndex<SearchEntry>> {
+  if (!indexRequest) {
+    indexRequest = fetch(`${baseUrl}search-index.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<SearchIndexFile>;
+      })
+      .then((file) =>
+        prepareIndex(
+          file.entries.map(({ unit, preview, ...entry }) => ({
+            ...file.units[unit],
+            ...entry,
+            preview: preview ?? fieldPreview(entry.fields),
+          }))
+        )
+      );
+    indexRequest.catch((err) => {
+      console.warn('[jlearn] could not load search index', err);
+      indexRequest = null;
+    });
+  }
+  return indexRequest;
+}
+
 const typeLabels: Record<string, { label: string; color: string }> = {
   vocab: { label: '單字', color: '#5BA87A' },
   grammar: { label: '文法', color: '#D4737D' },
   dialogue: { label: '對話', color: '#D4A853' },
+  culture: { label: '文化', color: '#9B7BB8' },
 };
 
 interface GroupedResult {
@@ -26,13 +48,15 @@ interface GroupedResult {
   chapterTitle: string;
   unitId: string;
   unitTitle: string;
-  matches: { type: string; preview: string }[];
+  matches: { type: string; anchor: string; preview: string; matched: string[] }[];
 }
 
-export default function Search({ index, baseUrl }: Props) {
+export default function Search({ baseUrl }: Props) {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const [prepared, setPrepared] = useState<PreparedIndex<SearchEntry> | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -50,6 +74,10 @@ export default function Search({ index, baseUrl }: Props) {
 
   useEffect(() => {
     if (isOpen) {
+      if (!prepared) {
+        setLoadFailed(false);
+        loadIndex(baseUrl).then(setPrepared, () => setLoadFailed(true));
+      }
       setTimeout(() => inputRef.current?.focus(), 50);
       document.body.style.overflow = 'hidden';
     } else {
@@ -59,12 +87,12 @@ export default function Search({ index, baseUrl }: Props) {
   }, [isOpen]);
 
   const results: GroupedResult[] = [];
-  if (query.length >= 1) {
-    const q = query.toLowerCase();
-    const matched = index.filter((e) => e.text.includes(q));
+  if (prepared && query.trim().length >= 1) {
+    // Hits come back best-first, so groups are ordered by their best match
+    const hits = search(prepared, query);
     const grouped = new Map<string, GroupedResult>();
 
-    for (const m of matched) {
+    for (const { entry: m, matched: terms } of hits) {
       const key = `${m.chapterId}-${m.unitId}`;
       if (!grouped.has(key)) {
         grouped.set(key, {
@@ -77,7 +105,7 @@ export default function Search({ index, baseUrl }: Props) {
       }
       const group = grouped.get(key)!;
       if (group.matches.length < 3) {
-        group.matches.push({ type: m.type, preview: m.preview });
+        group.matches.push({ type: m.type, anchor: m.anchor, preview: m.preview, matched: terms });
       }
     }
 
@@ -117,7 +145,7 @@ export default function Search({ index, baseUrl }: Props) {
               <input
                 ref={inputRef}
                 type="text"
-                placeholder="搜尋單字、文法、對話..."
+                placeholder="搜尋單字、文法、對話、文化..."
                 value={query}
                 onInput={(e) => setQuery((e.target as HTMLInputElement).value)}
                 class="flex-1 text-sm outline-none bg-transparent"
@@ -136,11 +164,17 @@ export default function Search({ index, baseUrl }: Props) {
               {query.length === 0 && (
                 <div class="px-5 py-8 text-center" style={{ color: '#9B8B7E' }}>
                   <p class="text-sm">輸入關鍵字搜尋所有單元內容</p>
-                  <p class="text-xs mt-1">例如：一人、すみません、退稅</p>
+                  <p class="text-xs mt-1">例如：一人、すみません、taberu、退稅</p>
+                </div>
+              )}
+
+              {query.trim().length >= 1 && !prepared && (
+                <div class="px-5 py-8 text-center" style={{ color: '#9B8B7E' }}>
+                  <p class="text-sm">{loadFailed ? '無法載入搜尋資料，請檢查網路連線後重新開啟搜尋' : '載入搜尋資料中...'}</p>
                 </div>
               )}
 
-              {query.length >= 1 && results.length === 0 && (
+              {prepared && query.trim().length >= 1 && results.length === 0 && (
                 <div class="px-5 py-8 text-center" style={{ color: '#9B8B7E' }}>
                   <p class="text-sm">找不到「{query}」相關的內容</p>
                 </div>
@@ -148,46 +182,54 @@ export default function Search({ index, baseUrl }: Props) {
 
               {results.length > 0 && (
                 <div class="py-2">
-                  {results.slice(0, 20).map((group) => (
-                    <a
-                      href={`${baseUrl}chapters/${group.chapterId}/${group.unitId}`}
-                      class="block px-5 py-3 transition-colors"
-                      style={{ ':hover': {} }}
-                      onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.background = '#F5F0EB'; }}
-                      onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.background = ''; }}
-                      onClick={() => setIsOpen(false)}
-                    >
-                      <div class="flex items-center gap-2 mb-1">
-                        <span class="text-xs font-medium" style={{ color: '#5BA87A' }}>
-                          第{group.chapterId}章
-                        </span>
-                        <svg class="w-3 h-3" fill="none" stroke="#9B8B7E" viewBox="0 0 24 24">
-                          <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
-                        </svg>
-                        <span class="text-xs font-medium" style={{ color: '#3D3229' }}>
-                          {group.unitTitle}
-                        </span>
-                      </div>
-                      <div class="space-y-1">
-                        {group.matches.map((m) => {
-                          const t = typeLabels[m.type] || typeLabels.vocab;
-                          return (
-                            <div class="flex items-start gap-2">
-                              <span
-                                class="text-xs px-1.5 py-0.5 rounded shrink-0 mt-0.5"
-                                style={{ background: `${t.color}15`, color: t.color }}
+                  {results.slice(0, 20).map((group) => {
+                    const unitUrl = `${baseUrl}chapters/${group.chapterId}/${group.unitId}`;
+                    return (
+                      <div class="px-5 py-3">
+                        <a href={unitUrl} class="flex items-center gap-2 mb-1" onClick={() => setIsOpen(false)}>
+                          <span class="text-xs font-medium" style={{ color: '#5BA87A' }}>
+                            第{group.chapterId}章
+                          </span>
+                          <svg class="w-3 h-3" fill="none" stroke="#9B8B7E" viewBox="0 0 24 24">
+                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7" />
+                          </svg>
+                          <span class="text-xs font-medium" style={{ color: '#3D3229' }}>
+                            {group.unitTitle}
+                          </span>
+                        </a>
+                        <div class="space-y-0.5">
+                          {group.matches.map((m) => {
+                            const t = typeLabels[m.type] || typeLabels.vocab;
+                            return (
+                              <a
+                                href={anchorHref(unitUrl, m.anchor)}
+                                class="flex items-start gap-2 -mx-2 px-2 py-1 rounded-lg transition-colors"
+                                onMouseEnter={(e) => { (e.currentTarget as HTMLElement).style.background = '#F5F0EB'; }}
+                                onMouseLeave={(e) => { (e.currentTarget as HTMLElement).style.background = ''; }}
+                                onClick={() => setIsOpen(false)}
                               >
-                                {t.label}
-                              </span>
-                              <span class="text-xs" style={{ color: '#6B5B4E' }}>
-                                {m.preview.length > 60 ? m.preview.substring(0, 60) + '...' : m.preview}
-                              </span>
-                            </div>
-                          );
-                        })}
+                                <span
+                                  class="text-xs px-1.5 py-0.5 rounded shrink-0 mt-0.5"
+                                  style={{ background: `${t.color}15`, color: t.color }}
+                                >
+                                  {t.label}
+                                </span>
+                                <span class="text-xs" style={{ color: '#6B5B4E' }}>
+                                  {excerpt(m.preview, query, m.matched).map((seg) =>
+                                    seg.match ? (
+                                      <mark class="rounded-sm" style={{ background: '#FCEFC7', color: '#3D3229' }}>{seg.text}</mark>
+                                    ) : (
+                                      seg.text
+                                    )
+                                  )}
+                                </span>
+                              </a>
+                            );
+                          })}
+                        </div>
                       </div>
-                    </a>
-                  ))}
+                    );
+                  })}
                   {results.length > 20 && (
                     <div class="px-5 py-2 text-center">
                       <span class="text-xs" style={{ color: '#9B8B7E' }}>
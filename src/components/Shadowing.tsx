@@ -0,0 +1,394 @@
+import { useState, useEffect, useRef } from 'preact/hooks';
+import Ruby from './Ruby';
+import { audioUrl, playAudio, playSequence, stopAudio } from '../lib/audio';
+import { decodeClip, voiceProfile } from '../lib/pitch';
+import type { VoiceProfile } from '../lib/pitch';
+import { recordActivity } from '../lib/progress';
+import { MAX_TAKES, deleteTake, listTakes, saveTake } from '../lib/recordings';
+import type { ShadowingLine, Take } from '../lib/recordings';
+
+// Recording stops by itself after this, in case the learner forgets
+const MAX_SECONDS = 15;
+const jpFont = "'Noto Sans JP', sans-serif";
+
+type Status = 'idle' | 'listening' | 'recording';
+
+async function profileOf(data: Promise<ArrayBuffer>): Promise<VoiceProfile> {
+  const { samples, sampleRate } = await decodeClip(await data);
+  return voiceProfile(samples, sampleRate);
+}
+
+// A polyline broken wherever the pitch is unvoiced
+function contourPath(pitch: (number | null)[], width: number, baseline: number): string {
+  const step = width / pitch.length;
+  let d = '';
+  let drawing = false;
+  pitch.forEach((semitones, i) => {
+    if (semitones === null) {
+      drawing = false;
+      return;
+    }
+    const y = baseline - Math.max(-12, Math.min(12, semitones)) * 1.8;
+    d += `${drawing ? 'L' : 'M'}${(i + 0.5) * step} ${y.toFixed(1)} `;
+    drawing = true;
+  });
+  return d;
+}
+
+function Overlay({ reference, take }: { reference: VoiceProfile | null; take: VoiceProfile | null }) {
+  const width = 200;
+  const bars = (profile: VoiceProfile, color: string, opacity: number) =>
+    profile.waveform.map((w, i) => {
+      const step = width / profile.waveform.length;
+      const h = Math.max(0.5, w * 22);
+      return <rect key={i} x={i * step + step * 0.15} y={25 - h} width={step * 0.7} height={h * 2} rx="0.5" fill={color} opacity={opacity} />;
+    });
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} 100`} class="w-full h-auto rounded-xl" style={{ background: '#FEFCFB' }} aria-hidden="true">
+        {reference && bars(reference, '#B5A08A', 0.45)}
+        {take && bars(take, '#5BA87A', 0.55)}
+        <line x1="0" y1="75" x2={width} y2="75" stroke="#E8DDD4" stroke-width="0.4" stroke-dasharray="2 2" />
+        {reference && <path d={contourPath(reference.pitch, width, 75)} fill="none" stroke="#6B5B4E" stroke-width="1.2" stroke-linecap="round" />}
+        {take && <path d={contourPath(take.pitch, width, 75)} fill="none" stroke="#5BA87A" stroke-width="1.2" stroke-linecap="round" />}
+      </svg>
+      <div class="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs" style={{ color: '#9B8B7E' }}>
+        {reference && (
+          <span>
+            <span class="inline-block w-3 h-0.5 align-middle mr-1" style={{ background: '#6B5B4E' }} />
+            示範 {reference.duration.toFixed(1)} 秒
+          </span>
+        )}
+        {take && (
+          <span>
+            <span class="inline-block w-3 h-0.5 align-middle mr-1" style={{ background: '#5BA87A' }} />
+            你的錄音 {take.duration.toFixed(1)} 秒
+          </span>
+        )}
+        <span>上：音量・下：音高起伏（已對齊長度）</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Shadowing panel for the unit page: ShadowingButton.astro marks each dialogue
+ * line and vocab example, and a click opens the line here to record and compare.
+ */
+export default function Shadowing() {
+  const [line, setLine] = useState<ShadowingLine | null>(null);
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [status, setStatus] = useState<Status>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [listenFirst, setListenFirst] = useState(true);
+  const [reference, setReference] = useState<VoiceProfile | null>(null);
+  const [profile, setProfile] = useState<VoiceProfile | null>(null);
+  const recorder = useRef<MediaRecorder | null>(null);
+  const timer = useRef<ReturnType<typeof setInterval>>();
+  const urls = useRef(new Map<number, string>());
+  const openLine = useRef<string | null>(null);
+
+  const urlOf = (take: Take) => {
+    if (!urls.current.has(take.id)) urls.current.set(take.id, URL.createObjectURL(take.blob));
+    return urls.current.get(take.id)!;
+  };
+
+  const releaseUrls = () => {
+    urls.current.forEach((url) => URL.revokeObjectURL(url));
+    urls.current.clear();
+  };
+
+  useEffect(() => {
+    const onClick = (e: MouseEvent) => {
+      const button = (e.target as Element).closest<HTMLElement>('[data-shadowing]');
+      if (!button?.dataset.shadowing) return;
+      e.preventDefault();
+      setLine(JSON.parse(button.dataset.shadowing) as ShadowingLine);
+    };
+    document.addEventListener('click', onClick);
+    return () => {
+      document.removeEventListener('click', onClick);
+      releaseUrls();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!line) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+    };
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  }, [line]);
+
+  // A new line: its earlier takes, and the reference clip's profile
+  useEffect(() => {
+    openLine.current = line?.id ?? null;
+    if (!line) return;
+    let cancelled = false;
+    setTakes([]);
+    setSelected(null);
+    setReference(null);
+    setError(null);
+    listTakes(line.id)
+      .then((saved) => {
+        if (cancelled) return;
+        setTakes(saved);
+        setSelected(saved[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.warn('[jlearn] Could not read recordings', err);
+        setError('無法讀取先前的錄音，瀏覽器可能停用了網站資料儲存。');
+      });
+    if (line.audio) {
+      profileOf(fetch(audioUrl(line.audio)).then((r) => r.arrayBuffer()))
+        .then((p) => !cancelled && setReference(p))
+        .catch((err) => console.warn(`[jlearn] Could not analyse ${line.audio}`, err));
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [line]);
+
+  useEffect(() => {
+    const take = takes.find((t) => t.id === selected);
+    setProfile(null);
+    if (!take) return;
+    let cancelled = false;
+    profileOf(take.blob.arrayBuffer())
+      .then((p) => !cancelled && setProfile(p))
+      .catch((err) => console.warn('[jlearn] Could not analyse the recording', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, takes]);
+
+  const stop = () => {
+    clearInterval(timer.current);
+    if (recorder.current?.state === 'recording') recorder.current.stop();
+  };
+
+  function close() {
+    stop();
+    stopAudio();
+    releaseUrls();
+    setLine(null);
+  }
+
+  const record = async () => {
+    if (!line) return;
+    setError(null);
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('這個瀏覽器不支援錄音，請改用新版的 Chrome、Edge、Firefox 或 Safari。');
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.warn('[jlearn] Microphone unavailable', err);
+      setError('無法使用麥克風，請在瀏覽器設定中允許本網站使用麥克風。');
+      return;
+    }
+
+    // Shadowing proper: hear the model, then say it straight after
+    if (listenFirst && line.audio) {
+      setStatus('listening');
+      const audio = playAudio(audioUrl(line.audio));
+      await new Promise((resolve) => {
+        audio.addEventListener('ended', resolve, { once: true });
+        audio.addEventListener('error', resolve, { once: true });
+        audio.addEventListener('pause', resolve, { once: true });
+      });
+      // Closed or switched lines while the model was playing
+      if (openLine.current !== line.id) {
+        stream.getTracks().forEach((track) => track.stop());
+        setStatus('idle');
+        return;
+      }
+    }
+
+    const chunks: Blob[] = [];
+    const rec = new MediaRecorder(stream);
+    const startedAt = performance.now();
+    rec.ondataavailable = (e) => chunks.push(e.data);
+    rec.onstop = async () => {
+      stream.getTracks().forEach((track) => track.stop());
+      setStatus('idle');
+      const blob = new Blob(chunks, { type: rec.mimeType });
+      try {
+        const saved = await saveTake(line.id, blob, (performance.now() - startedAt) / 1000);
+        setTakes(saved);
+        setSelected(saved[0].id);
+        recordActivity();
+      } catch (err) {
+        console.warn('[jlearn] Could not save the recording', err);
+        setError('錄音無法儲存，瀏覽器可能停用了網站資料儲存。');
+      }
+    };
+    recorder.current = rec;
+    rec.start();
+    setStatus('recording');
+    setElapsed(0);
+    timer.current = setInterval(() => {
+      const seconds = (performance.now() - startedAt) / 1000;
+      setElapsed(seconds);
+      if (seconds >= MAX_SECONDS) stop();
+    }, 200);
+  };
+
+  const remove = async (take: Take) => {
+    try {
+      await deleteTake(take.id);
+    } catch (err) {
+      console.warn('[jlearn] Could not delete the recording', err);
+      return;
+    }
+    const url = urls.current.get(take.id);
+    if (url) URL.revokeObjectURL(url);
+    urls.current.delete(take.id);
+    const rest = takes.filter((t) => t.id !== take.id);
+    setTakes(rest);
+    if (selected === take.id) setSelected(rest[0]?.id ?? null);
+  };
+
+  if (!line) return null;
+
+  const current = takes.find((t) => t.id === selected);
+  const referenceUrl = line.audio && audioUrl(line.audio);
+
+  return (
+    <div
+      class="fixed inset-0 z-[100] flex items-end sm:items-center justify-center p-4"
+      style={{ background: 'rgba(61, 50, 41, 0.5)', backdropFilter: 'blur(4px)' }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && status === 'idle') close();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="跟讀練習"
+        class="w-full max-w-lg rounded-2xl shadow-2xl p-5 overflow-y-auto"
+        style={{ background: '#fff', border: '1px solid rgba(232, 221, 212, 0.5)', maxHeight: '90vh' }}
+      >
+        <div class="flex items-start gap-3 mb-4">
+          <div class="flex-1 min-w-0">
+            <p class="text-xs font-medium mb-1" style={{ color: '#5BA87A' }}>🎙 跟讀練習</p>
+            <p class="text-lg font-medium" style={{ color: '#3D3229', fontFamily: jpFont }} lang="ja">
+              <Ruby text={line.japanese} />
+            </p>
+            <p class="text-sm mt-1" style={{ color: '#9B8B7E' }}>{line.chinese}</p>
+          </div>
+          <button onClick={close} class="w-8 h-8 rounded-full shrink-0 hover:bg-warm-100" style={{ color: '#9B8B7E' }} aria-label="關閉">
+            ✕
+          </button>
+        </div>
+
+        {!line.audio && (
+          <p class="text-xs mb-4 px-3 py-2 rounded-lg" style={{ background: '#FFFBF0', color: '#6B5B4E' }}>
+            這句還沒有示範音檔，可以先錄下自己的發音，對照文字反覆練習。
+          </p>
+        )}
+
+        <div class="flex flex-wrap items-center gap-2 mb-4">
+          {status === 'recording' ? (
+            <button onClick={stop} class="px-4 py-2 rounded-xl text-sm font-medium text-white" style={{ background: '#E85D5D' }}>
+              ■ 停止錄音（{elapsed.toFixed(1)} / {MAX_SECONDS} 秒）
+            </button>
+          ) : (
+            <button
+              onClick={record}
+              disabled={status === 'listening'}
+              class="px-4 py-2 rounded-xl text-sm font-medium text-white disabled:opacity-60"
+              style={{ background: '#5BA87A' }}
+            >
+              {status === 'listening' ? '🔊 聽示範中…' : '🎙 開始錄音'}
+            </button>
+          )}
+          {referenceUrl && (
+            <>
+              <button
+                onClick={() => playAudio(referenceUrl)}
+                disabled={status !== 'idle'}
+                class="px-3 py-2 rounded-xl text-sm font-medium disabled:opacity-40"
+                style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+              >
+                ▶ 示範
+              </button>
+              <label class="flex items-center gap-1.5 text-xs ml-auto" style={{ color: '#6B5B4E' }}>
+                <input type="checkbox" checked={listenFirst} onChange={() => setListenFirst(!listenFirst)} class="accent-matcha-400" />
+                先聽示範再錄音
+              </label>
+            </>
+          )}
+        </div>
+
+        {error && <p class="text-xs mb-4" style={{ color: '#E85D5D' }}>{error}</p>}
+
+        {(reference || profile) && (
+          <div class="mb-4">
+            <Overlay reference={reference} take={profile} />
+          </div>
+        )}
+
+        {takes.length > 0 && (
+          <div>
+            <p class="text-xs mb-2" style={{ color: '#9B8B7E' }}>
+              你的錄音（只存在這個瀏覽器，保留最新 {MAX_TAKES} 次）
+            </p>
+            <ul class="space-y-2">
+              {takes.map((take, i) => {
+                const active = take.id === current?.id;
+                return (
+                  <li
+                    key={take.id}
+                    class="flex items-center gap-2 px-3 py-2 rounded-xl border text-sm"
+                    style={{ borderColor: active ? '#5BA87A' : '#E8DDD4', background: active ? '#F0FAF4' : '#fff' }}
+                  >
+                    <button onClick={() => setSelected(take.id)} class="flex-1 min-w-0 text-left" style={{ color: '#3D3229' }}>
+                      {i === 0 ? '最新' : `前 ${i} 次`}
+                      <span class="ml-2 text-xs" style={{ color: '#9B8B7E' }}>
+                        {new Date(take.createdAt).toLocaleString('zh-TW', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        ・{take.duration.toFixed(1)} 秒
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => playAudio(urlOf(take))}
+                      disabled={status !== 'idle'}
+                      class="px-2.5 py-1 rounded-lg text-xs font-medium disabled:opacity-40"
+                      style={{ background: '#F5F0EB', color: '#6B5B4E' }}
+                    >
+                      ▶ 我的
+                    </button>
+                    {referenceUrl && (
+                      <button
+                        onClick={() => playSequence([referenceUrl, urlOf(take)], () => {})}
+                        disabled={status !== 'idle'}
+                        class="px-2.5 py-1 rounded-lg text-xs font-medium disabled:opacity-40"
+                        style={{ background: '#F0FAF4', color: '#3D8B6E' }}
+                        title="先播示範，再播你的錄音"
+                      >
+                        A/B
+                      </button>
+                    )}
+                    <button
+                      onClick={() => remove(take)}
+                      disabled={status !== 'idle'}
+                      class="w-7 h-7 rounded-full text-xs hover:bg-warm-100 disabled:opacity-40"
+                      style={{ color: '#9B8B7E' }}
+                      aria-label="刪除這次錄音"
+                    >
+                      🗑
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { courseUnits } from './course';
+import type { CourseUnit } from './course';
+import { stripFurigana } from '../lib/furigana';
+import { dialogueLineAnchor, grammarAnchor, vocabAnchor } from '../lib/anchors';
+
+// Sentences a traveller can say, pulled from dialogues, vocab examples and
+// grammar examples and grouped by where they'd be needed.
+
+export type Situation = 'transport' | 'hotel' | 'shopping' | 'restaurant' | 'emergency';
+
+export const SITUATIONS: { id: Situation; label: string; icon: string; includes: (unit: CourseUnit) => boolean }[] = [
+  { id: 'transport', label: '交通', icon: '🚃', includes: (u) => u.chapterId === 2 },
+  { id: 'hotel', label: '住宿', icon: '🏨', includes: (u) => u.chapterId === 3 },
+  { id: 'shopping', label: '購物', icon: '🛍️', includes: (u) => u.chapterId === 4 },
+  { id: 'restaurant', label: '餐廳', icon: '🍜', includes: (u) => u.chapterId === 5 },
+  { id: 'emergency', label: '緊急', icon: '🚑', includes: (u) => u.key === 'ch8/unit8' },
+];
+
+export interface Phrase {
+  /** The sentence without readings; stable across edits elsewhere in the unit, so favourites key on it. */
+  id: string;
+  japanese: string;
+  chinese: string;
+  situation: Situation;
+  chapterId: number;
+  unitId: string;
+  /** Element ID on the unit page (see lib/anchors) */
+  anchor: string;
+  audio?: string;
+}
+
+export function buildPhrasebook(): Phrase[] {
+  const phrases = new Map<string, Phrase>();
+  const add = (unit: CourseUnit, situation: Situation, phrase: Omit<Phrase, 'id' | 'situation' | 'chapterId' | 'unitId'>) => {
+    const id = stripFurigana(phrase.japanese).trim();
+    if (!phrases.has(id)) phrases.set(id, { id, situation, chapterId: unit.chapterId, unitId: unit.id, ...phrase });
+  };
+
+  for (const unit of courseUnits) {
+    const situation = SITUATIONS.find((s) => s.includes(unit))?.id;
+    if (!situation) continue;
+    unit.data.sections.forEach((section, sectionIndex) => {
+      if (section.type === 'dialogue') {
+        section.lines.forEach((line, lineIndex) => {
+          // Lines spoken to the traveller rather than by them stay out
+          if (!section.learner.includes(line.speaker)) return;
+          add(unit, situation, {
+            japanese: line.japanese,
+            chinese: line.chinese,
+            anchor: dialogueLineAnchor(sectionIndex, lineIndex),
+            audio: line.audio,
+          });
+        });
+      } else if (section.type === 'vocab') {
+        for (const item of section.items) {
+          if (item.example && item.exampleChinese) {
+            add(unit, situation, { japanese: item.example, chinese: item.exampleChinese, anchor: vocabAnchor(item.japanese) });
+          }
+        }
+      } else if (section.type === 'grammar') {
+        for (const point of section.points) {
+          for (const example of point.examples) {
+            add(unit, situation, { japanese: example.japanese, chinese: example.chinese, anchor: grammarAnchor(point.pattern) });
+          }
+        }
+      }
+    });
+  }
+
+  return [...phrases.values()];
+}
@@ -0,0 +1,42 @@
+import { courseUnits } from './course';
+import type { Unit } from './chapters';
+import { cardId } from '../lib/srs';
+
+// Every flashcard and vocab item in the course for the review page, served as
+// `review.json` rather than inlined into the page.
+
+export interface ReviewCard {
+  id: string;
+  japanese: string;
+  reading: string;
+  romaji: string;
+  chinese: string;
+  audio?: string;
+  chapterId: number;
+  unitType: Unit['type'];
+}
+
+/** One card per unit + japanese, in course order. */
+export function buildReviewDeck(): ReviewCard[] {
+  const cards = new Map<string, ReviewCard>();
+  for (const { chapterId, id: unitId, type, data } of courseUnits) {
+    for (const section of data.sections) {
+      const items = section.type === 'flashcards' ? section.cards : section.type === 'vocab' ? section.items : undefined;
+      for (const item of items || []) {
+        const id = cardId(chapterId, unitId, item.japanese);
+        if (cards.has(id)) continue;
+        cards.set(id, {
+          id,
+          japanese: item.japanese,
+          reading: item.reading,
+          romaji: item.romaji,
+          chinese: item.chinese,
+          ...(item.audio && { audio: item.audio }),
+          chapterId,
+          unitType: type,
+        });
+      }
+    }
+  }
+  return [...cards.values()];
+}
@@ -1,71 +1,143 @@
-import { getAllUnits } from './loadUnit';
-import { chapters } from './chapters';
+import { course } from './course';
+import { stripFurigana } from '../lib/furigana';
+import { cultureTipAnchor, dialogueLineAnchor, grammarAnchor, sectionAnchor, vocabAnchor } from '../lib/anchors';
+import { fieldPreview } from '../lib/search';
+import type { SearchField } from '../lib/search';
 
 export interface SearchEntry {
   chapterId: number;
   chapterTitle: string;
   unitId: string;
   unitTitle: string;
-  type: 'vocab' | 'grammar' | 'dialogue';
-  text: string;
+  type: 'vocab' | 'grammar' | 'dialogue' | 'culture';
+  /** Element ID on the unit page (see lib/anchors) */
+  anchor: string;
+  fields: Partial<Record<SearchField, string>>;
   preview: string;
 }
 
 export function buildSearchIndex(): SearchEntry[] {
-  const allUnits = getAllUnits();
   const entries: SearchEntry[] = [];
 
-  for (const { chapterId, unitId, data } of allUnits) {
-    const chapter = chapters.find((c) => c.id === chapterId);
-    const chapterTitle = chapter?.title || `第${chapterId}章`;
-    const unitTitle = data.title;
+  for (const { id: chapterId, title: chapterTitle, units } of course) {
+    for (const { id: unitId, title: unitTitle, data } of units) {
+      data.sections.forEach((section, sectionIndex) => {
+        if (section.type === 'vocab') {
+          for (const item of section.items) {
+            entries.push({
+              chapterId,
+              chapterTitle,
+              unitId,
+              unitTitle,
+              type: 'vocab',
+              anchor: vocabAnchor(item.japanese),
+              fields: {
+                japanese: item.japanese,
+                reading: item.reading,
+                romaji: item.romaji,
+                chinese: item.chinese,
+                example: `${stripFurigana(item.example || '')} ${item.exampleChinese || ''}`.trim(),
+              },
+              preview: fieldPreview(item),
+            });
+          }
+        }
 
-    for (const section of data.sections) {
-      if (section.type === 'vocab' && section.items) {
-        for (const item of section.items) {
-          entries.push({
-            chapterId,
-            chapterTitle,
-            unitId,
-            unitTitle,
-            type: 'vocab',
-            text: `${item.japanese} ${item.reading} ${item.romaji} ${item.chinese} ${item.example || ''} ${item.exampleChinese || ''}`.toLowerCase(),
-            preview: `${item.japanese}（${item.reading}）— ${item.chinese}`,
+        if (section.type === 'grammar') {
+          for (const point of section.points) {
+            entries.push({
+              chapterId,
+              chapterTitle,
+              unitId,
+              unitTitle,
+              type: 'grammar',
+              anchor: grammarAnchor(point.pattern),
+              fields: {
+                japanese: point.pattern,
+                chinese: point.meaning,
+                detail: `${point.structure} ${point.note || ''}`.trim(),
+              },
+              preview: fieldPreview({ japanese: point.pattern, chinese: point.meaning }),
+            });
+          }
+        }
+
+        if (section.type === 'dialogue') {
+          section.lines.forEach((line, lineIndex) => {
+            if (line.japanese && line.chinese) {
+              const japanese = stripFurigana(line.japanese);
+              entries.push({
+                chapterId,
+                chapterTitle,
+                unitId,
+                unitTitle,
+                type: 'dialogue',
+                anchor: dialogueLineAnchor(sectionIndex, lineIndex),
+                fields: { example: `${japanese} — ${line.chinese}` },
+                preview: `${japanese} — ${line.chinese}`,
+              });
+            }
           });
         }
-      }
 
-      if (section.type === 'grammar' && section.points) {
-        for (const point of section.points) {
+        if (section.type === 'culture') {
+          const text = section.content.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
           entries.push({
             chapterId,
             chapterTitle,
             unitId,
             unitTitle,
-            type: 'grammar',
-            text: `${point.pattern} ${point.meaning} ${point.structure} ${point.note || ''}`.toLowerCase(),
-            preview: `${point.pattern} — ${point.meaning}`,
+            type: 'culture',
+            anchor: sectionAnchor('culture', sectionIndex),
+            fields: { detail: `${section.title}：${text}` },
+            preview: `${section.title}：${text}`,
           });
-        }
-      }
-
-      if (section.type === 'dialogue' && section.lines) {
-        for (const line of section.lines) {
-          if (line.japanese && line.chinese) {
+          (section.tips || []).forEach((tip, tipIndex) => {
             entries.push({
               chapterId,
               chapterTitle,
               unitId,
               unitTitle,
-              type: 'dialogue',
-              text: `${line.japanese} ${line.chinese}`.toLowerCase(),
-              preview: `${line.japanese} — ${line.chinese}`,
+              type: 'culture',
+              anchor: cultureTipAnchor(sectionIndex, tipIndex),
+              fields: { detail: tip },
+              preview: tip,
             });
-          }
+          });
         }
-      }
+      });
     }
   }
 
   return entries;
 }
+
+/**
+ * Wire format of `search-index.json`: unit titles are stored once and
+ * referenced by position instead of being repeated on every entry, and
+ * `preview` is left out when `fieldPreview` rebuilds it.
+ */
+export interface SearchIndexFile {
+  units: { chapterId: number; chapterTitle: string; unitId: string; unitTitle: string }[];
+  entries: { unit: number; type: SearchEntry['type']; anchor: string; fields: SearchEntry['fields']; preview?: string }[];
+}
+
+export function packSearchIndex(entries: SearchEntry[]): SearchIndexFile {
+  const file: SearchIndexFile = { units: [], entries: [] };
+  const unitIndex = new Map<string, number>();
+  for (const { chapterId, chapterTitle, unitId, unitTitle, type, anchor, fields, preview } of entries) {
+    const key = `${chapterId}/${unitId}`;
+    if (!unitIndex.has(key)) {
+      unitIndex.set(key, file.units.length);
+      file.units.push({ chapterId, chapterTitle, unitId, unitTitle });
+    }
+    file.entries.push({
+      unit: unitIndex.get(key)!,
+      type,
+      anchor,
+      fields,
+      ...(preview !== fieldPreview(fields) && { preview }),
+    });
+  }
+  return file;
+}
@@ -1,9 +1,14 @@
+// The course manifest: chapter order and, per chapter, which unit files it
+// contains in reading order. A unit's title and length live in its JSON file;
+// see ./course for the merged view pages should use.
+
 export interface Unit {
+  /** File name under src/data/chN/, e.g. `unit3` */
   id: string;
-  title: string;
   type: 'lesson' | 'culture' | 'practice' | 'homework' | 'bonus';
-  estimatedTime: string;
   description: string;
+  /** Earlier units worth finishing first, as progress keys, e.g. `ch1/unit2` */
+  prerequisites?: string[];
 }
 
 export interface Chapter {
@@ -23,16 +28,16 @@ export const chapters: Chapter[] = [
     description: '學完五十音後最重要的下一步！掌握數字、方向、禮貌用語等日常必備基礎，讓你開口說日語不再害怕。',
     icon: '📝',
     units: [
-      { id: 'unit1', title: '五十音教學，平假名 & 片假名應用', type: 'lesson', estimatedTime: '25 分鐘', description: '複習五十音表，學會在旅遊場景中辨識平假名與片假名' },
-      { id: 'unit2', title: '學數字不出錯！教你價格與時間', type: 'lesson', estimatedTime: '20 分鐘', description: '掌握日語數字、價格說法與時間表達' },
-      { id: 'unit3', title: '人數份數搞不清楚？一次告訴你！', type: 'lesson', estimatedTime: '15 分鐘', description: '學會量詞與人數的正確說法' },
-      { id: 'unit4', title: '這裡？那裡？哪裡？搞懂「こそあど」就不迷路！', type: 'lesson', estimatedTime: '20 分鐘', description: '理解日語指示代名詞系統' },
-      { id: 'unit5', title: '如何請別人幫幫忙？學會禮貌表達', type: 'lesson', estimatedTime: '15 分鐘', description: '學習請求幫助的禮貌句型' },
-      { id: 'unit6', title: '從「頑張ります」開始的生活常用對話', type: 'lesson', estimatedTime: '15 分鐘', description: '日常生活中最常用的短句與回應' },
-      { id: 'unit7', title: '想跟日本人打招呼嗎？從自我介紹開始！', type: 'lesson', estimatedTime: '20 分鐘', description: '學會完整的自我介紹與打招呼方式' },
-      { id: 'unit8', title: '時間表達進階：星期、月份、日期的說法', type: 'lesson', estimatedTime: '20 分鐘', description: '掌握星期、月份與日期的日語表達' },
-      { id: 'unit9', title: '旅遊常用形容詞：大小、遠近、好吃難吃', type: 'lesson', estimatedTime: '20 分鐘', description: '學會描述事物的常用い形容詞' },
-      { id: 'unit10', title: '旅遊必備動詞：行く、食べる、買う', type: 'lesson', estimatedTime: '20 分鐘', description: '掌握旅遊最常用的動詞與ます形' },
+      { id: 'unit1', type: 'lesson', description: '複習五十音表，學會在旅遊場景中辨識平假名與片假名' },
+      { id: 'unit2', type: 'lesson', description: '掌握日語數字、價格說法與時間表達' },
+      { id: 'unit3', type: 'lesson', description: '學會量詞與人數的正確說法' },
+      { id: 'unit4', type: 'lesson', description: '理解日語指示代名詞系統' },
+      { id: 'unit5', type: 'lesson', description: '學習請求幫助的禮貌句型' },
+      { id: 'unit6', type: 'lesson', description: '日常生活中最常用的短句與回應' },
+      { id: 'unit7', type: 'lesson', description: '學會完整的自我介紹與打招呼方式' },
+      { id: 'unit8', type: 'lesson', description: '掌握星期、月份與日期的日語表達' },
+      { id: 'unit9', type: 'lesson', description: '學會描述事物的常用い形容詞' },
+      { id: 'unit10', type: 'lesson', description: '掌握旅遊最常用的動詞與ます形' },
     ]
   },
   {
@@ -42,13 +47,13 @@ export const chapters: Chapter[] = [
     description: '從機場到市區、搭電車、問路，所有交通相關的日語一次學會，讓你的日本之旅從落地那一刻就順暢無比。',
     icon: '✈️',
     units: [
-      { id: 'unit1', title: '搭電車不迷路！必學問路用語', type: 'lesson', estimatedTime: '20 分鐘', description: '學會問路、看站名、搭電車的必備日語' },
-      { id: 'unit2', title: '出門不慌張！交通實用會話', type: 'lesson', estimatedTime: '20 分鐘', description: '計程車、巴士、地鐵的實用會話' },
-      { id: 'unit3', title: '文化小教室｜大眾交通工具規則', type: 'culture', estimatedTime: '10 分鐘', description: '了解日本搭車禮儀與規則' },
-      { id: 'unit4', title: '交通日語綜合練習', type: 'practice', estimatedTime: '15 分鐘', description: '第二章交通主題的單字、對話與測驗總複習' },
-      { id: 'unit5', title: '新幹線搭乘攻略：買票、找座位、車上用語', type: 'lesson', estimatedTime: '20 分鐘', description: '學會搭新幹線的完整流程與用語' },
-      { id: 'unit6', title: '租車自駕遊：租車、加油、停車場日語', type: 'lesson', estimatedTime: '20 分鐘', description: '自駕旅遊的租車與駕駛相關日語' },
-      { id: 'unit7', title: '機場出入境：入境審查、海關、行李提領', type: 'lesson', estimatedTime: '20 分鐘', description: '機場出入境的完整日語對話' },
+      { id: 'unit1', type: 'lesson', description: '學會問路、看站名、搭電車的必備日語', prerequisites: ['ch1/unit4'] },
+      { id: 'unit2', type: 'lesson', description: '計程車、巴士、地鐵的實用會話', prerequisites: ['ch1/unit2', 'ch1/unit5'] },
+      { id: 'unit3', type: 'culture', description: '了解日本搭車禮儀與規則' },
+      { id: 'unit4', type: 'practice', description: '第二章交通主題的單字、對話與測驗總複習' },
+      { id: 'unit5', type: 'lesson', description: '學會搭新幹線的完整流程與用語', prerequisites: ['ch1/unit2', 'ch1/unit8'] },
+      { id: 'unit6', type: 'lesson', description: '自駕旅遊的租車與駕駛相關日語' },
+      { id: 'unit7', type: 'lesson', description: '機場出入境的完整日語對話' },
     ]
   },
   {
@@ -58,14 +63,14 @@ export const chapters: Chapter[] = [
     description: '從入住 check-in 到退房 check-out，包含突發狀況處理，讓你在日本住宿完全不慌張。',
     icon: '🏨',
     units: [
-      { id: 'unit1', title: '入住＆退房，用「お願いします」輕鬆請求服務', type: 'lesson', estimatedTime: '20 分鐘', description: '飯店 check-in/out 的完整對話與常用句型' },
-      { id: 'unit2', title: '住宿突發狀況！解決東西遺失與電器故障問題', type: 'lesson', estimatedTime: '20 分鐘', description: '遇到問題時如何用日語求助' },
-      { id: 'unit3', title: '文化小教室｜全裸＋毛巾＋牛奶，日本溫泉背後的秘密！', type: 'culture', estimatedTime: '10 分鐘', description: '日本溫泉禮儀與有趣文化' },
-      { id: 'unit4', title: '住宿日語綜合練習', type: 'practice', estimatedTime: '15 分鐘', description: '第三章住宿主題的單字、對話與測驗總複習' },
-      { id: 'unit5', title: '民宿與Airbnb：和房東溝通的實用日語', type: 'lesson', estimatedTime: '20 分鐘', description: '民宿入住與房東溝通的實用日語' },
-      { id: 'unit6', title: '日式旅館體驗：榻榻米、浴衣、懷石料理', type: 'lesson', estimatedTime: '20 分鐘', description: '日式旅館的獨特體驗與相關用語' },
-      { id: 'unit7', title: '飯店設施使用：洗衣、健身房、商務中心', type: 'lesson', estimatedTime: '15 分鐘', description: '飯店各項設施的使用方式與日語' },
-      { id: 'unit8', title: '有人按門鈴！宅配、訪客應對日語', type: 'lesson', estimatedTime: '15 分鐘', description: '宅配收件、訪客應對與門鈴相關日語' },
+      { id: 'unit1', type: 'lesson', description: '飯店 check-in/out 的完整對話與常用句型', prerequisites: ['ch1/unit3', 'ch1/unit5'] },
+      { id: 'unit2', type: 'lesson', description: '遇到問題時如何用日語求助' },
+      { id: 'unit3', type: 'culture', description: '日本溫泉禮儀與有趣文化' },
+      { id: 'unit4', type: 'practice', description: '第三章住宿主題的單字、對話與測驗總複習' },
+      { id: 'unit5', type: 'lesson', description: '民宿入住與房東溝通的實用日語' },
+      { id: 'unit6', type: 'lesson', description: '日式旅館的獨特體驗與相關用語' },
+      { id: 'unit7', type: 'lesson', description: '飯店各項設施的使用方式與日語' },
+      { id: 'unit8', type: 'lesson', description: '宅配收件、訪客應對與門鈴相關日語' },
     ]
   },
   {
@@ -75,14 +80,14 @@ export const chapters: Chapter[] = [
     description: '藥妝店、超市、便利商店、服飾店，所有購物場景的日語對話讓你買得開心又順利。',
     icon: '🛍️',
     units: [
-      { id: 'unit1', title: '藥妝店/超市對話：找物品、問位置不害怕', type: 'lesson', estimatedTime: '20 分鐘', description: '在藥妝店和超市的實用問答' },
-      { id: 'unit2', title: '買衣服實戰，輕鬆問尺寸與顏色', type: 'lesson', estimatedTime: '20 分鐘', description: '服飾購物的專用日語' },
-      { id: 'unit3', title: '便利商店會話攻略！聽懂就好，不必背長長的敬語', type: 'lesson', estimatedTime: '15 分鐘', description: '便利商店店員常說的話與回應方式' },
-      { id: 'unit4', title: '文化小教室｜日本折扣解析：看懂割引、特売、點數回饋', type: 'culture', estimatedTime: '10 分鐘', description: '日本購物折扣制度全解析' },
-      { id: 'unit5', title: '購物日語綜合練習', type: 'practice', estimatedTime: '15 分鐘', description: '第四章購物主題的單字、對話與測驗總複習' },
-      { id: 'unit6', title: '退稅攻略：免稅手續與相關日語', type: 'lesson', estimatedTime: '20 分鐘', description: '免稅購物流程與退稅相關日語' },
-      { id: 'unit7', title: '電器3C購物：秋葉原與家電量販店', type: 'lesson', estimatedTime: '20 分鐘', description: '電器3C產品的購物日語' },
-      { id: 'unit8', title: '伴手禮挑選：送禮文化與人氣土產', type: 'lesson', estimatedTime: '15 分鐘', description: '伴手禮挑選與送禮相關日語' },
+      { id: 'unit1', type: 'lesson', description: '在藥妝店和超市的實用問答', prerequisites: ['ch1/unit4'] },
+      { id: 'unit2', type: 'lesson', description: '服飾購物的專用日語', prerequisites: ['ch1/unit9'] },
+      { id: 'unit3', type: 'lesson', description: '便利商店店員常說的話與回應方式', prerequisites: ['ch1/unit2'] },
+      { id: 'unit4', type: 'culture', description: '日本購物折扣制度全解析' },
+      { id: 'unit5', type: 'practice', description: '第四章購物主題的單字、對話與測驗總複習' },
+      { id: 'unit6', type: 'lesson', description: '免稅購物流程與退稅相關日語' },
+      { id: 'unit7', type: 'lesson', description: '電器3C產品的購物日語' },
+      { id: 'unit8', type: 'lesson', description: '伴手禮挑選與送禮相關日語' },
     ]
   },
   {
@@ -92,15 +97,15 @@ export const chapters: Chapter[] = [
     description: '從入座到結帳，看懂菜單、操作拉麵券売機、處理飲食限制，成為日本餐廳達人。',
     icon: '🍜',
     units: [
-      { id: 'unit1', title: '日本餐廳生存術，從入座、點餐到結帳', type: 'lesson', estimatedTime: '25 分鐘', description: '完整的餐廳用餐流程日語' },
-      { id: 'unit2', title: '點餐不NG！看懂菜單＆拉麵券売機', type: 'lesson', estimatedTime: '20 分鐘', description: '學會看懂日文菜單和使用券売機' },
-      { id: 'unit3', title: '安心點餐～挑食、過敏、吃素必備用語', type: 'lesson', estimatedTime: '15 分鐘', description: '飲食限制相關的重要表達' },
-      { id: 'unit4', title: '文化小教室｜日本用餐禮儀、居酒屋文化', type: 'culture', estimatedTime: '10 分鐘', description: '日本用餐禮儀和居酒屋文化' },
-      { id: 'unit5', title: '美食日語綜合練習', type: 'practice', estimatedTime: '15 分鐘', description: '第五章美食主題的單字、對話與測驗總複習' },
-      { id: 'unit6', title: '居酒屋完全攻略：乾杯、點餐與社交', type: 'lesson', estimatedTime: '20 分鐘', description: '居酒屋點餐、社交與文化' },
-      { id: 'unit7', title: '咖啡廳與甜點：來一杯日式下午茶', type: 'lesson', estimatedTime: '15 分鐘', description: '咖啡廳點餐與甜點相關日語' },
-      { id: 'unit8', title: '便當與外帶：テイクアウト文化', type: 'lesson', estimatedTime: '15 分鐘', description: '外帶文化與便當相關日語' },
-      { id: 'unit9', title: '打電話預約餐廳：從訂位到確認', type: 'lesson', estimatedTime: '20 分鐘', description: '電話訂位餐廳的完整流程與日語' },
+      { id: 'unit1', type: 'lesson', description: '完整的餐廳用餐流程日語', prerequisites: ['ch1/unit2', 'ch1/unit3'] },
+      { id: 'unit2', type: 'lesson', description: '學會看懂日文菜單和使用券売機', prerequisites: ['ch1/unit3'] },
+      { id: 'unit3', type: 'lesson', description: '飲食限制相關的重要表達' },
+      { id: 'unit4', type: 'culture', description: '日本用餐禮儀和居酒屋文化' },
+      { id: 'unit5', type: 'practice', description: '第五章美食主題的單字、對話與測驗總複習' },
+      { id: 'unit6', type: 'lesson', description: '居酒屋點餐、社交與文化' },
+      { id: 'unit7', type: 'lesson', description: '咖啡廳點餐與甜點相關日語' },
+      { id: 'unit8', type: 'lesson', description: '外帶文化與便當相關日語' },
+      { id: 'unit9', type: 'lesson', description: '電話訂位餐廳的完整流程與日語', prerequisites: ['ch1/unit8', 'ch5/unit1'] },
     ]
   },
   {
@@ -110,14 +115,14 @@ export const chapters: Chapter[] = [
     description: '神社參拜、和服體驗、景點規範，深入了解日本文化，做個受歡迎的旅行者。',
     icon: '⛩️',
     units: [
-      { id: 'unit1', title: '請不要這樣做！旅遊景點禁止句型', type: 'lesson', estimatedTime: '15 分鐘', description: '學會看懂禁止標示與相關句型' },
-      { id: 'unit2', title: '神社小白救星！參拜、御守、抽籤一次學', type: 'lesson', estimatedTime: '20 分鐘', description: '神社參拜完整流程與相關日語' },
-      { id: 'unit3', title: '文化小教室｜和服穿對超重要：左前右前一次搞懂', type: 'culture', estimatedTime: '10 分鐘', description: '和服穿著規則與文化意涵' },
-      { id: 'unit4', title: '景點日語綜合練習', type: 'practice', estimatedTime: '15 分鐘', description: '第六章景點主題的單字、對話與測驗總複習' },
-      { id: 'unit5', title: '溫泉入門：泡湯用語與禮儀實戰', type: 'lesson', estimatedTime: '20 分鐘', description: '溫泉相關用語與入浴禮儀' },
-      { id: 'unit6', title: '祭典與花火大會：夏日風物詩', type: 'lesson', estimatedTime: '20 分鐘', description: '日本祭典與花火大會相關日語' },
-      { id: 'unit7', title: '遊樂園攻略：迪士尼與環球影城實用日語', type: 'lesson', estimatedTime: '20 分鐘', description: '主題遊樂園的實用日語' },
-      { id: 'unit8', title: '年末年始：跨年、初詣與新年文化', type: 'lesson', estimatedTime: '20 分鐘', description: '日本跨年與新年的文化習俗與相關日語' },
+      { id: 'unit1', type: 'lesson', description: '學會看懂禁止標示與相關句型', prerequisites: ['ch1/unit10'] },
+      { id: 'unit2', type: 'lesson', description: '神社參拜完整流程與相關日語' },
+      { id: 'unit3', type: 'culture', description: '和服穿著規則與文化意涵' },
+      { id: 'unit4', type: 'practice', description: '第六章景點主題的單字、對話與測驗總複習' },
+      { id: 'unit5', type: 'lesson', description: '溫泉相關用語與入浴禮儀', prerequisites: ['ch3/unit3'] },
+      { id: 'unit6', type: 'lesson', description: '日本祭典與花火大會相關日語' },
+      { id: 'unit7', type: 'lesson', description: '主題遊樂園的實用日語' },
+      { id: 'unit8', type: 'lesson', description: '日本跨年與新年的文化習俗與相關日語' },
     ]
   },
   {
@@ -127,13 +132,13 @@ export const chapters: Chapter[] = [
     description: '探索私藏景點、道地美食，以及靜岡的特色文化。',
     icon: '🗾',
     units: [
-      { id: 'unit1', title: '私藏景點分享', type: 'lesson', estimatedTime: '15 分鐘', description: '在地人推薦的私房景點與相關日語' },
-      { id: 'unit2', title: '私藏美食分享', type: 'lesson', estimatedTime: '15 分鐘', description: '在地人才知道的美食推薦' },
-      { id: 'unit3', title: '靜岡特色文化', type: 'culture', estimatedTime: '10 分鐘', description: '認識靜岡的特色文化與方言' },
-      { id: 'unit4', title: '日本美食綜合練習', type: 'practice', estimatedTime: '20 分鐘', description: '第七章在地美食主題的單字、對話與測驗總複習' },
-      { id: 'unit5', title: '日本市場探險：築地、黑門、錦市場', type: 'lesson', estimatedTime: '20 分鐘', description: '日本傳統市場的購物與美食日語' },
-      { id: 'unit6', title: '溫泉鄉小旅行：箱根、別府、草津', type: 'lesson', estimatedTime: '20 分鐘', description: '溫泉鄉旅行的實用日語' },
-      { id: 'unit7', title: '季節限定體驗：賞櫻、紅葉、雪祭', type: 'lesson', estimatedTime: '20 分鐘', description: '季節限定活動的相關日語' },
+      { id: 'unit1', type: 'lesson', description: '在地人推薦的私房景點與相關日語' },
+      { id: 'unit2', type: 'lesson', description: '在地人才知道的美食推薦' },
+      { id: 'unit3', type: 'culture', description: '認識靜岡的特色文化與方言' },
+      { id: 'unit4', type: 'practice', description: '第七章在地美食主題的單字、對話與測驗總複習' },
+      { id: 'unit5', type: 'lesson', description: '日本傳統市場的購物與美食日語' },
+      { id: 'unit6', type: 'lesson', description: '溫泉鄉旅行的實用日語' },
+      { id: 'unit7', type: 'lesson', description: '季節限定活動的相關日語' },
     ]
   },
   {
@@ -143,15 +148,15 @@ export const chapters: Chapter[] = [
     description: '寒暄技巧、鞠躬禮儀、敬語入門，了解台日文化差異，讓你在日本不再尷尬。',
     icon: '🙇',
     units: [
-      { id: 'unit1', title: '日本人如何開啟對話及寒暄 small talk tips', type: 'lesson', estimatedTime: '15 分鐘', description: '學會日式寒暄與開話題技巧' },
-      { id: 'unit2', title: '從語言看台日思維差異：如何避免文化尷尬？', type: 'lesson', estimatedTime: '15 分鐘', description: '台灣人最容易踩的文化地雷' },
-      { id: 'unit3', title: '什麼情況下需鞠躬彎腰？', type: 'lesson', estimatedTime: '10 分鐘', description: '日本鞠躬禮儀完全指南' },
-      { id: 'unit4', title: '旅日前小提醒', type: 'lesson', estimatedTime: '10 分鐘', description: '出發前的重要注意事項' },
-      { id: 'unit5', title: '文化小教室｜認識敬語：為什麼日語這麼講究禮貌？', type: 'culture', estimatedTime: '15 分鐘', description: '敬語入門與日本禮貌文化' },
-      { id: 'unit6', title: '【BONUS】語言學習經驗分享', type: 'bonus', estimatedTime: '10 分鐘', description: '語言學習的寶貴經驗與建議' },
-      { id: 'unit7', title: '日本送禮文化：お土産、お中元、お歳暮', type: 'lesson', estimatedTime: '15 分鐘', description: '日本送禮文化與相關日語' },
-      { id: 'unit8', title: '緊急狀況處理：生病、遺失、求助', type: 'lesson', estimatedTime: '20 分鐘', description: '緊急狀況的求助日語' },
-      { id: 'unit9', title: '旅程結束：感謝、道別與保持聯繫', type: 'lesson', estimatedTime: '15 分鐘', description: '旅程結束的感謝與道別用語' },
+      { id: 'unit1', type: 'lesson', description: '學會日式寒暄與開話題技巧' },
+      { id: 'unit2', type: 'lesson', description: '台灣人最容易踩的文化地雷' },
+      { id: 'unit3', type: 'lesson', description: '日本鞠躬禮儀完全指南' },
+      { id: 'unit4', type: 'lesson', description: '出發前的重要注意事項' },
+      { id: 'unit5', type: 'culture', description: '敬語入門與日本禮貌文化', prerequisites: ['ch1/unit5'] },
+      { id: 'unit6', type: 'bonus', description: '語言學習的寶貴經驗與建議' },
+      { id: 'unit7', type: 'lesson', description: '日本送禮文化與相關日語' },
+      { id: 'unit8', type: 'lesson', description: '緊急狀況的求助日語' },
+      { id: 'unit9', type: 'lesson', description: '旅程結束的感謝與道別用語' },
     ]
   }
 ];
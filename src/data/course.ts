@@ -0,0 +1,132 @@
+import { chapters } from './chapters';
+import type { Chapter, Unit } from './chapters';
+import { loadUnit } from './loadUnit';
+import { KANA_CELLS } from './kana';
+import type { UnitData } from './loadUnit';
+import { unitKey } from '../lib/progress';
+
+// chapters.ts merged with the unit files, in reading order. Static paths,
+// prev/next links and unit listings all walk this, so they can't disagree;
+// `courseUnits` is the learning path, running across chapter boundaries.
+
+export interface CourseUnit extends Unit {
+  /** Progress key, e.g. `ch1/unit3` */
+  key: string;
+  chapterId: number;
+  /** Position within the chapter, from 0 */
+  index: number;
+  title: string;
+  /** Derived from the content, e.g. `25 分鐘` */
+  estimatedTime: string;
+  data: UnitData;
+}
+
+export interface CourseChapter extends Omit<Chapter, 'units'> {
+  units: CourseUnit[];
+}
+
+// Rough time an unhurried learner spends per item
+const SECONDS = {
+  vocab: 30,
+  dialogueLine: 20,
+  grammarPoint: 60,
+  grammarExample: 20,
+  flashcard: 15,
+  question: 40,
+  /** Per kana, in each script */
+  kana: 5,
+  numberDrill: 120,
+  conjugationDrill: 300,
+};
+const READING_CHARS_PER_MINUTE = 300;
+
+/** Minutes to work through a unit, rounded to 5. */
+export function estimateMinutes(unit: UnitData): number {
+  let seconds = 0;
+  for (const section of unit.sections) {
+    switch (section.type) {
+      case 'vocab':
+        seconds += section.items.length * SECONDS.vocab;
+        break;
+      case 'dialogue':
+        seconds += section.lines.length * SECONDS.dialogueLine;
+        break;
+      case 'grammar':
+        for (const point of section.points) {
+          seconds += SECONDS.grammarPoint + point.examples.length * SECONDS.grammarExample;
+        }
+        break;
+      case 'culture': {
+        const chars = [section.content, ...(section.tips || [])].join('').replace(/<[^>]+>/g, '').length;
+        seconds += (chars / READING_CHARS_PER_MINUTE) * 60;
+        break;
+      }
+      case 'flashcards':
+        seconds += section.cards.length * SECONDS.flashcard;
+        break;
+      case 'quiz':
+        seconds += section.questions.length * SECONDS.question;
+        break;
+      case 'kana':
+        seconds += KANA_CELLS.length * 2 * SECONDS.kana;
+        break;
+      case 'numbers':
+        seconds += section.drills.length * SECONDS.numberDrill;
+        break;
+      case 'conjugation':
+        seconds += SECONDS.conjugationDrill;
+        break;
+    }
+  }
+  return Math.max(5, Math.round(seconds / 300) * 5);
+}
+
+/** Paths under public/ of every clip the unit plays. */
+export function unitAudio(unit: UnitData): string[] {
+  const paths = unit.sections.flatMap((section) => {
+    switch (section.type) {
+      case 'vocab':
+        return section.items.map((item) => item.audio);
+      case 'flashcards':
+        return section.cards.map((card) => card.audio);
+      case 'dialogue':
+        return section.lines.map((line) => line.audio);
+      case 'quiz':
+        return section.questions.map((q) => (q.type === 'listening' ? q.audio : undefined));
+      default:
+        return [];
+    }
+  });
+  return [...new Set(paths.filter((p): p is string => Boolean(p)))];
+}
+
+export const course: CourseChapter[] = chapters.map(({ units, ...chapter }) => ({
+  ...chapter,
+  units: units.map((unit, index) => {
+    const data = loadUnit(chapter.id, unit.id);
+    // The content-validation integration reports this before any page renders
+    if (!data) throw new Error(`src/data/ch${chapter.id}/${unit.id}.json is listed in chapters.ts but missing`);
+    return {
+      ...unit,
+      key: unitKey(chapter.id, unit.id),
+      chapterId: chapter.id,
+      index,
+      title: data.title,
+      estimatedTime: `${estimateMinutes(data)} 分鐘`,
+      data,
+    };
+  }),
+}));
+
+/** Every unit of the course, chapter by chapter. */
+export const courseUnits: CourseUnit[] = course.flatMap((ch) => ch.units);
+
+export function findUnit(key: string): CourseUnit | undefined {
+  return courseUnits.find((u) => u.key === key);
+}
+
+/** The units either side of `unit` on the learning path, crossing into neighbouring chapters. */
+export function pathNeighbours(unit: CourseUnit): { prev?: CourseUnit; next?: CourseUnit } {
+  const i = courseUnits.findIndex((u) => u.key === unit.key);
+  return { prev: courseUnits[i - 1], next: courseUnits[i + 1] };
+}
@@ -0,0 +1,60 @@
+import { hiraganaToKatakana, kanaToRomaji } from '../lib/kana';
+
+// The kana chart for ch1/unit1: gojūon, dakuten/handakuten and yōon rows.
+// Only the hiragana is listed; katakana and Hepburn romaji are derived.
+
+export type KanaGroup = 'basic' | 'voiced' | 'yoon';
+
+export interface KanaCell {
+  hiragana: string;
+  katakana: string;
+  romaji: string;
+  group: KanaGroup;
+}
+
+/** A chart row; null marks an empty slot so columns stay aligned. */
+export type KanaRow = (KanaCell | null)[];
+
+export const KANA_GROUPS: { id: KanaGroup; label: string; columns: string[] }[] = [
+  { id: 'basic', label: '清音', columns: ['a', 'i', 'u', 'e', 'o'] },
+  { id: 'voiced', label: '濁音・半濁音', columns: ['a', 'i', 'u', 'e', 'o'] },
+  { id: 'yoon', label: '拗音', columns: ['ya', 'yu', 'yo'] },
+];
+
+const ROWS: Record<KanaGroup, string[]> = {
+  basic: [
+    'あいうえお', 'かきくけこ', 'さしすせそ', 'たちつてと', 'なにぬねの',
+    'はひふへほ', 'まみむめも', 'や・ゆ・よ', 'らりるれろ', 'わ・・・を', 'ん・・・・',
+  ],
+  voiced: ['がぎぐげご', 'ざじずぜぞ', 'だぢづでど', 'ばびぶべぼ', 'ぱぴぷぺぽ'],
+  yoon: ['き', 'ぎ', 'し', 'じ', 'ち', 'に', 'ひ', 'び', 'ぴ', 'み', 'り'].map((k) => `${k}ゃ${k}ゅ${k}ょ`),
+};
+
+// Hepburn writes ぢ and づ the way they sound; kanaToRomaji keeps them distinct for input
+const HEPBURN: Record<string, string> = { ぢ: 'ji', づ: 'zu' };
+
+function splitRow(row: string, group: KanaGroup): KanaRow {
+  const kana = group === 'yoon' ? row.match(/.[ゃゅょ]/g)! : [...row];
+  return kana.map((hiragana) =>
+    hiragana === '・' ? null : { hiragana, katakana: hiraganaToKatakana(hiragana), romaji: HEPBURN[hiragana] || kanaToRomaji(hiragana), group }
+  );
+}
+
+export const KANA_CHART: Record<KanaGroup, KanaRow[]> = {
+  basic: ROWS.basic.map((row) => splitRow(row, 'basic')),
+  voiced: ROWS.voiced.map((row) => splitRow(row, 'voiced')),
+  yoon: ROWS.yoon.map((row) => splitRow(row, 'yoon')),
+};
+
+export const KANA_CELLS: KanaCell[] = Object.values(KANA_CHART).flat(2).filter((c): c is KanaCell => c !== null);
+
+// Other spellings a learner may type: IME input for ぢ/づ, and を as pronounced
+const ALTERNATIVE_ROMAJI: Record<string, string[]> = {
+  ぢ: ['di'],
+  づ: ['du'],
+  を: ['o'],
+};
+
+export function acceptedRomaji(cell: KanaCell): string[] {
+  return [cell.romaji, ...(ALTERNATIVE_ROMAJI[cell.hiragana] || [])];
+}
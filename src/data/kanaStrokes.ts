@@ -0,0 +1,116 @@
+// Stroke order for the 92 basic kana, drawn for this site on a 100 × 100 grid
+// (y grows downwards). Each string is one stroke as an SVG path, listed in the
+// order it is written and pointing in the direction of the brush. Voiced kana
+// reuse their base strokes plus the marks below, so only base forms are listed.
+
+const HIRAGANA: Record<string, string[]> = {
+  あ: ['M22 30 Q45 33 70 26', 'M44 14 Q40 50 50 86', 'M64 42 Q52 78 30 76 Q16 72 26 58 Q42 42 66 48 Q84 56 78 72 Q72 84 58 88'],
+  い: ['M26 28 Q20 60 30 76 Q34 80 38 70', 'M70 36 Q80 48 82 64'],
+  う: ['M38 16 Q50 20 62 20', 'M30 44 Q50 36 64 42 Q76 52 66 70 Q56 82 40 88'],
+  え: ['M40 16 Q50 20 60 20', 'M30 44 L66 40 L26 84 Q40 66 50 70 Q54 84 76 84'],
+  お: ['M20 34 L58 32', 'M40 14 L40 72 Q40 84 30 82 Q18 78 24 66 Q40 50 62 54 Q82 60 76 76 Q70 86 56 88', 'M70 24 Q80 30 84 38'],
+  か: ['M20 40 Q40 34 54 36 Q66 40 62 62 Q58 80 48 80', 'M40 16 Q36 56 22 84', 'M70 30 Q82 44 86 58'],
+  き: ['M26 28 L68 24', 'M24 46 L74 40', 'M42 12 Q56 50 72 62', 'M40 64 Q28 74 40 82 L66 84'],
+  く: ['M62 14 L32 50 L62 86'],
+  け: ['M24 20 Q20 50 26 80', 'M46 38 L80 36', 'M66 16 Q70 60 50 88'],
+  こ: ['M30 30 Q50 26 66 30 L60 36', 'M28 68 Q36 80 72 76'],
+  さ: ['M24 38 L74 32', 'M44 14 Q56 40 66 56', 'M40 62 Q28 74 40 82 L66 84'],
+  し: ['M34 16 L34 68 Q36 86 54 84 Q68 80 76 66'],
+  す: ['M18 36 L82 32', 'M54 14 L54 58 Q54 70 44 66 Q36 58 46 50 Q56 48 56 60 Q56 76 40 88'],
+  せ: ['M16 48 L84 42', 'M64 20 L64 60 Q62 68 52 64', 'M34 22 L34 76 Q36 84 60 84 L74 84'],
+  そ: ['M32 20 L62 18 L26 50 L78 44 Q52 54 50 70 Q52 84 70 86'],
+  た: ['M20 32 L52 30', 'M38 14 Q34 54 22 84', 'M54 50 L74 48', 'M54 70 Q56 82 78 80'],
+  ち: ['M20 32 L72 28', 'M44 14 L34 60 Q54 46 68 52 Q80 62 68 76 Q60 84 46 86'],
+  つ: ['M16 40 Q56 26 72 38 Q84 54 68 70 Q56 80 40 80'],
+  て: ['M18 28 L80 24 Q48 40 46 62 Q48 82 70 84'],
+  と: ['M40 18 L48 50', 'M70 38 Q40 50 36 66 Q36 84 72 84'],
+  な: ['M18 32 L52 30', 'M38 14 Q34 50 20 70', 'M66 36 L76 46', 'M58 50 L58 78 Q56 88 46 86 Q36 80 46 72 Q62 66 80 82'],
+  に: ['M24 20 Q20 50 26 80', 'M46 36 Q60 32 70 36', 'M46 70 Q54 80 76 76'],
+  ぬ: ['M24 32 Q34 58 40 80', 'M54 20 Q44 70 26 84 Q14 80 22 60 Q40 36 62 40 Q82 46 80 66 Q78 84 64 86 Q52 86 56 76 Q66 72 82 82'],
+  ね: ['M32 14 L32 88', 'M18 34 L44 32 L18 74 Q40 42 60 42 Q80 48 78 68 Q76 84 64 86 Q52 86 56 76 Q66 72 82 82'],
+  の: ['M52 34 Q46 70 30 76 Q16 72 20 54 Q30 30 58 30 Q82 34 82 56 Q80 78 60 86'],
+  は: ['M24 20 Q20 50 26 80', 'M44 36 L80 34', 'M62 16 L62 76 Q62 86 52 86 Q40 84 44 74 Q56 68 80 82'],
+  ひ: ['M18 30 L40 28 Q20 56 28 74 Q40 86 54 70 Q62 54 64 30 Q68 60 84 70'],
+  ふ: ['M44 16 Q54 22 56 28', 'M56 36 Q40 48 50 66 Q58 82 42 84', 'M26 60 Q20 70 16 80', 'M70 60 Q80 70 84 80'],
+  へ: ['M14 56 L34 36 L86 76'],
+  ほ: ['M24 20 Q20 50 26 80', 'M44 24 L78 22', 'M44 46 L78 44', 'M62 24 L62 76 Q62 86 52 86 Q40 84 44 74 Q56 68 80 82'],
+  ま: ['M24 28 L76 26', 'M26 48 L74 46', 'M50 12 L50 74 Q50 86 40 86 Q28 82 34 72 Q50 66 76 82'],
+  み: ['M24 24 L54 22 Q34 60 26 74 Q20 82 30 82 Q50 70 62 56 Q78 48 82 62', 'M66 36 Q66 66 56 86'],
+  む: ['M18 36 L60 34', 'M38 14 L38 62 Q34 72 28 66 Q22 58 32 56 Q40 58 38 72 Q40 86 60 84 Q72 82 72 66', 'M74 30 Q82 36 84 44'],
+  め: ['M24 32 Q34 58 40 80', 'M58 20 Q44 70 26 84 Q14 80 22 60 Q40 36 62 40 Q84 48 78 70 Q72 84 56 88'],
+  も: ['M40 14 Q32 50 38 74 Q44 88 60 84 Q70 78 72 60', 'M24 34 L60 32', 'M22 54 L62 52'],
+  や: ['M18 44 Q56 26 74 38 Q80 50 62 56', 'M40 18 L48 28', 'M28 20 L54 88'],
+  ゆ: ['M20 26 Q14 56 24 72 Q28 74 32 60 Q44 34 64 34 Q82 40 80 58 Q76 70 54 68', 'M56 14 Q62 56 44 88'],
+  よ: ['M50 36 L76 34', 'M46 14 L46 74 Q44 86 34 86 Q22 82 28 72 Q46 64 80 82'],
+  ら: ['M42 14 L56 22', 'M32 34 Q26 54 28 62 Q48 46 66 54 Q76 66 64 78 Q54 86 38 86'],
+  り: ['M30 20 Q26 44 30 58 Q32 62 36 54', 'M64 18 Q70 56 46 88'],
+  る: ['M28 24 L64 22 L22 68 Q48 50 66 56 Q80 66 70 80 Q60 88 46 84 Q38 78 46 72 Q56 70 60 80'],
+  れ: ['M32 14 L32 88', 'M16 34 L44 32 L18 74 Q42 40 58 42 Q62 48 60 72 Q62 84 84 80'],
+  ろ: ['M28 24 L64 22 L22 68 Q48 50 66 56 Q80 66 70 80 Q60 88 40 86'],
+  わ: ['M32 14 L32 88', 'M16 34 L44 32 L18 74 Q40 42 60 42 Q80 48 80 64 Q78 80 56 86'],
+  を: ['M20 30 L62 26', 'M40 14 Q36 36 24 50 Q40 38 52 44 Q56 50 52 62', 'M78 46 Q50 56 48 72 Q50 86 74 86'],
+  ん: ['M52 14 L20 86 Q34 50 48 52 Q54 56 54 72 Q56 84 66 82 Q76 78 84 62'],
+};
+
+const KATAKANA: Record<string, string[]> = {
+  ア: ['M18 22 L78 22 Q70 40 54 48', 'M46 34 Q48 62 24 86'],
+  イ: ['M66 14 Q50 40 18 60', 'M48 38 L48 88'],
+  ウ: ['M50 12 L50 28', 'M22 30 L22 48', 'M22 32 L78 32 Q76 62 46 86'],
+  エ: ['M24 26 L76 26', 'M50 26 L50 76', 'M16 78 L84 78'],
+  オ: ['M16 38 L84 38', 'M60 14 L60 80 Q58 88 50 84', 'M58 40 Q40 62 18 76'],
+  カ: ['M20 36 L74 36 Q74 72 62 84 L54 80', 'M46 14 Q44 56 18 86'],
+  キ: ['M22 34 L76 30', 'M16 56 L84 52', 'M44 14 L56 88'],
+  ク: ['M44 14 Q36 32 18 46', 'M36 30 L74 30 Q64 66 30 86'],
+  ケ: ['M36 14 Q30 32 16 46', 'M30 34 L82 34', 'M60 34 Q58 66 34 86'],
+  コ: ['M24 26 L74 26 L74 74', 'M24 74 L76 74'],
+  サ: ['M14 38 L86 38', 'M34 18 L34 60', 'M66 16 Q66 64 42 86'],
+  シ: ['M22 24 L36 32', 'M16 46 L32 54', 'M20 82 Q56 66 78 26'],
+  ス: ['M24 24 L74 24 Q60 58 18 84', 'M54 56 L82 82'],
+  セ: ['M14 44 L80 36 Q72 50 62 58', 'M36 16 L36 76 Q36 86 48 86 L76 86'],
+  ソ: ['M24 26 L38 46', 'M76 22 Q66 62 32 86'],
+  タ: ['M44 14 Q36 32 18 46', 'M36 30 L74 30 Q64 66 30 86', 'M34 52 L66 64'],
+  チ: ['M68 14 Q50 22 28 24', 'M16 46 L84 46', 'M52 24 Q54 68 34 86'],
+  ツ: ['M20 28 L30 44', 'M42 22 L50 40', 'M78 24 Q68 64 36 86'],
+  テ: ['M26 22 L74 22', 'M16 44 L84 44', 'M50 44 Q50 70 32 86'],
+  ト: ['M36 14 L36 86', 'M36 44 L68 58'],
+  ナ: ['M14 40 L86 40', 'M56 14 Q58 60 30 86'],
+  ニ: ['M28 30 L72 30', 'M16 74 L84 74'],
+  ヌ: ['M24 24 L74 24 Q60 60 18 84', 'M34 46 Q56 60 74 82'],
+  ネ: ['M48 12 L50 24', 'M24 28 L72 28 Q50 54 18 72', 'M50 48 L50 88', 'M62 56 L80 70'],
+  ノ: ['M74 16 Q62 58 20 84'],
+  ハ: ['M38 30 Q32 56 16 74', 'M60 28 Q72 50 86 72'],
+  ヒ: ['M74 40 L30 52', 'M30 16 L30 76 Q30 86 42 86 L78 84'],
+  フ: ['M20 24 L78 24 Q70 62 30 86'],
+  ヘ: ['M14 56 L34 36 L86 76'],
+  ホ: ['M16 36 L84 36', 'M50 14 L50 80 Q48 88 40 84', 'M32 52 Q26 66 16 74', 'M66 52 Q74 64 84 74'],
+  マ: ['M16 26 L80 26 Q66 50 46 64', 'M38 52 L64 80'],
+  ミ: ['M32 18 L68 28', 'M34 44 L64 52', 'M28 68 L72 82'],
+  ム: ['M44 14 Q34 50 20 78 L72 72', 'M62 52 L80 84'],
+  メ: ['M72 16 Q60 60 20 84', 'M30 36 Q56 50 74 76'],
+  モ: ['M24 24 L76 24', 'M16 48 L84 48', 'M44 24 L44 76 Q46 86 58 86 L80 84'],
+  ヤ: ['M14 38 L82 30 L62 54', 'M36 14 L50 88'],
+  ユ: ['M26 30 L68 30 L64 76', 'M14 76 L86 76'],
+  ヨ: ['M24 22 L74 22 L74 80', 'M28 50 L74 50', 'M24 80 L74 80'],
+  ラ: ['M28 18 L72 18', 'M22 38 L76 38 Q68 70 32 86'],
+  リ: ['M30 20 L30 62', 'M70 14 Q70 62 40 88'],
+  ル: ['M36 20 Q36 60 16 82', 'M56 14 L56 82 Q70 76 84 60'],
+  レ: ['M30 16 L30 82 Q56 76 82 52'],
+  ロ: ['M24 24 L24 78', 'M24 24 L76 24 L76 78', 'M24 76 L76 76'],
+  ワ: ['M22 24 L22 44', 'M22 26 L78 26 Q74 62 40 86'],
+  ヲ: ['M20 24 L76 24', 'M20 46 L74 46', 'M76 24 Q70 62 32 86'],
+  ン: ['M20 26 L36 38', 'M20 82 Q56 68 78 28'],
+};
+
+const DAKUTEN = ['M74 10 L78 20', 'M84 8 L88 18'];
+const HANDAKUTEN = ['M82 8 Q89 8 89 15 Q89 22 82 22 Q75 22 75 15 Q75 8 82 8'];
+
+/** Stroke paths for a single kana, or undefined when there is no data (small kana, yōon). */
+export function kanaStrokes(kana: string): string[] | undefined {
+  // NFD splits が into か + U+3099 and ぱ into は + U+309A
+  const [base, mark] = [...kana.normalize('NFD')];
+  const strokes = HIRAGANA[base] || KATAKANA[base];
+  if (!strokes) return undefined;
+  if (mark === '\u3099') return [...strokes, ...DAKUTEN];
+  if (mark === '\u309a') return [...strokes, ...HANDAKUTEN];
+  return mark ? undefined : strokes;
+}
@@ -1,64 +1,44 @@
-export interface VocabItem {
-  japanese: string;
-  reading: string;
-  romaji: string;
-  chinese: string;
-  example?: string;
-  exampleChinese?: string;
-}
-
-export interface DialogueLine {
-  speaker: string;
-  japanese: string;
-  chinese: string;
-}
+import type { z } from 'astro/zod';
+import type {
+  choiceQuestionSchema,
+  dialogueLineSchema,
+  fillQuestionSchema,
+  grammarExampleSchema,
+  grammarPointSchema,
+  listeningQuestionSchema,
+  matchQuestionSchema,
+  orderQuestionSchema,
+  unitDataSchema,
+  unitSectionSchema,
+  vocabItemSchema,
+} from './schema';
+
+// Shapes of the unit JSON, inferred from the runtime schemas in ./schema so the
+// two can't drift apart.
+
+export type VocabItem = z.infer<typeof vocabItemSchema>;
+export type DialogueLine = z.infer<typeof dialogueLineSchema>;
+export type GrammarExample = z.infer<typeof grammarExampleSchema>;
+export type GrammarPoint = z.infer<typeof grammarPointSchema>;
+
+export type ChoiceQuestion = z.infer<typeof choiceQuestionSchema>;
+export type FillQuestion = z.infer<typeof fillQuestionSchema>;
+export type OrderQuestion = z.infer<typeof orderQuestionSchema>;
+export type MatchQuestion = z.infer<typeof matchQuestionSchema>;
+export type ListeningQuestion = z.infer<typeof listeningQuestionSchema>;
+export type { QuizQuestion } from './schema';
+
+/** One of the section shapes, discriminated by `type`. */
+export type UnitSection = z.infer<typeof unitSectionSchema>;
+export type SectionType = UnitSection['type'];
+export type SectionOf<T extends SectionType> = Extract<UnitSection, { type: T }>;
+export type UnitData = z.infer<typeof unitDataSchema>;
 
 export interface Dialogue {
   scene: string;
   lines: DialogueLine[];
 }
 
-export interface GrammarExample {
-  japanese: string;
-  chinese: string;
-}
-
-export interface GrammarPoint {
-  pattern: string;
-  meaning: string;
-  structure: string;
-  examples: GrammarExample[];
-  note?: string;
-}
-
-export interface QuizQuestion {
-  question: string;
-  options: string[];
-  correct: number;
-  explanation: string;
-}
-
-export interface UnitSection {
-  type: 'vocab' | 'dialogue' | 'grammar' | 'culture' | 'flashcards' | 'quiz';
-  title: string;
-  items?: VocabItem[];
-  scene?: string;
-  lines?: DialogueLine[];
-  points?: GrammarPoint[];
-  content?: string;
-  tips?: string[];
-  cards?: VocabItem[];
-  questions?: QuizQuestion[];
-}
-
-export interface UnitData {
-  id: string;
-  title: string;
-  intro: string;
-  estimatedTime: string;
-  sections: UnitSection[];
-}
-
 const unitModules = import.meta.glob<{ default: UnitData }>('./**/unit*.json', { eager: true });
 
 export function loadUnit(chapterId: number, unitId: string): UnitData | null {
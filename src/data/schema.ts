@@ -0,0 +1,262 @@
+import { z } from 'astro/zod';
+import { findFuriganaErrors } from '../lib/furigana';
+import { conjugationError } from '../lib/conjugation';
+
+// Runtime schemas for src/data/chN/unitM.json. The types in loadUnit.ts are
+// inferred from these, and the content-validation integration runs them over
+// every unit at build time.
+
+export const FORBIDDEN_NAMES = ['黑木', '黒木'];
+
+// Every string in a unit: non-empty, no forbidden names, well-formed furigana
+const text = z
+  .string()
+  .min(1, 'must not be empty')
+  .superRefine((value, ctx) => {
+    const name = FORBIDDEN_NAMES.find((n) => value.includes(n));
+    if (name) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `contains forbidden name "${name}"` });
+    for (const error of findFuriganaErrors(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `malformed furigana annotation: ${error}` });
+    }
+  });
+
+/** Path under public/, e.g. `audio/ch1/unit10/3f2a9c1b7e.m4a` */
+const audioPath = text.refine((p) => !p.startsWith('/') && !p.includes('..'), 'must be a relative path under public/');
+
+export const vocabItemSchema = z
+  .object({
+    japanese: text,
+    reading: text,
+    romaji: text,
+    chinese: text,
+    example: text.optional(),
+    exampleChinese: text.optional(),
+    audio: audioPath.optional(),
+    /** Tags verbs and adjectives for the conjugation drill */
+    pos: z.enum(['noun', 'verb', 'i-adjective', 'na-adjective', 'adverb', 'expression']).optional(),
+    verbGroup: z.enum(['godan', 'ichidan', 'irregular']).optional(),
+  })
+  .strict()
+  .superRefine((item, ctx) => {
+    const error = conjugationError(item);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['verbGroup'], message: error });
+  });
+
+// Vocab tables show an example for every word and the phrasebook draws on
+// them, so both are required there; flashcards may go without.
+const vocabEntrySchema = vocabItemSchema.superRefine((item, ctx) => {
+  for (const key of ['example', 'exampleChinese'] as const) {
+    if (item[key] === undefined) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'required in vocab sections' });
+  }
+});
+
+export const dialogueLineSchema = z
+  .object({
+    speaker: text,
+    japanese: text,
+    chinese: text,
+    audio: audioPath.optional(),
+  })
+  .strict();
+
+export const grammarExampleSchema = z
+  .object({
+    japanese: text,
+    chinese: text,
+  })
+  .strict();
+
+export const grammarPointSchema = z
+  .object({
+    pattern: text,
+    meaning: text,
+    structure: text,
+    examples: z.array(grammarExampleSchema).min(1, 'needs at least one example'),
+    note: text.optional(),
+  })
+  .strict();
+
+const quizBase = {
+  question: text,
+  explanation: text,
+};
+
+const choiceFields = {
+  options: z.array(text).length(4, 'needs exactly 4 options'),
+  correct: z.number().int().min(0).max(3),
+};
+
+/** Single choice; `type` is optional so the original questions stay valid. */
+export const choiceQuestionSchema = z
+  .object({ ...quizBase, type: z.literal('choice').optional(), ...choiceFields })
+  .strict();
+
+/** Free input; Japanese answers also accept kana and romaji spellings. */
+export const fillQuestionSchema = z
+  .object({ ...quizBase, type: z.literal('fill'), answers: z.array(text).min(1) })
+  .strict();
+
+/** Word tiles listed in the correct order; shuffled when shown. */
+export const orderQuestionSchema = z
+  .object({ ...quizBase, type: z.literal('order'), tiles: z.array(text).min(2, 'needs at least 2 tiles') })
+  .strict();
+
+export const matchQuestionSchema = z
+  .object({
+    ...quizBase,
+    type: z.literal('match'),
+    pairs: z
+      .array(z.object({ left: text, right: text }).strict())
+      .min(2, 'needs at least 2 pairs')
+      .superRefine((pairs, ctx) => {
+        for (const side of ['left', 'right'] as const) {
+          const values = pairs.map((p) => p[side]);
+          if (new Set(values).size !== values.length) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `duplicate "${side}" values` });
+          }
+        }
+      }),
+  })
+  .strict();
+
+/** Single choice about a clip under public/. */
+export const listeningQuestionSchema = z
+  .object({ ...quizBase, type: z.literal('listening'), audio: audioPath, ...choiceFields })
+  .strict();
+
+const questionSchemas = {
+  choice: choiceQuestionSchema,
+  fill: fillQuestionSchema,
+  order: orderQuestionSchema,
+  match: matchQuestionSchema,
+  listening: listeningQuestionSchema,
+};
+
+export type QuizQuestion = z.infer<(typeof questionSchemas)[keyof typeof questionSchemas]>;
+
+// Dispatches on `type` (missing means "choice") so errors describe the one
+// intended question shape rather than every member of a plain union.
+export const quizQuestionSchema = z.custom<QuizQuestion>().superRefine((value, ctx) => {
+  const type = (value as { type?: unknown })?.type ?? 'choice';
+  const schema = questionSchemas[type as keyof typeof questionSchemas];
+  if (!schema) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['type'],
+      message: `unknown question type "${String(type)}" (expected ${Object.keys(questionSchemas).join(', ')})`,
+    });
+    return;
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) result.error.issues.forEach((issue) => ctx.addIssue(issue));
+});
+
+// One schema per section type, discriminated by `type`. Adding a type here
+// also requires a renderer in components/UnitSection.astro (type-checked).
+
+export const vocabSectionSchema = z
+  .object({ type: z.literal('vocab'), title: text, items: z.array(vocabEntrySchema).min(1) })
+  .strict();
+
+export const dialogueSectionSchema = z
+  .object({
+    type: z.literal('dialogue'),
+    title: text,
+    scene: text,
+    /** Speakers whose lines the learner would say: the traveller and their companions, not staff or locals */
+    learner: z.array(text).min(1),
+    lines: z.array(dialogueLineSchema).min(1),
+  })
+  .strict();
+
+export const grammarSectionSchema = z
+  .object({ type: z.literal('grammar'), title: text, points: z.array(grammarPointSchema).min(1) })
+  .strict();
+
+export const cultureSectionSchema = z
+  .object({ type: z.literal('culture'), title: text, content: text, tips: z.array(text).optional() })
+  .strict();
+
+export const flashcardsSectionSchema = z
+  .object({
+    type: z.literal('flashcards'),
+    title: text,
+    cards: z
+      .array(vocabItemSchema)
+      .min(1)
+      .superRefine((cards, ctx) => {
+        const seen = new Set<string>();
+        cards.forEach((card, i) => {
+          if (seen.has(card.japanese)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, 'japanese'], message: `duplicate flashcard "${card.japanese}"` });
+          }
+          seen.add(card.japanese);
+        });
+      }),
+  })
+  .strict();
+
+export const quizSectionSchema = z
+  .object({ type: z.literal('quiz'), title: text, questions: z.array(quizQuestionSchema).min(1) })
+  .strict();
+
+/** The interactive kana chart, drills and stroke tracing; its content lives in data/kana.ts. */
+export const kanaSectionSchema = z.object({ type: z.literal('kana'), title: text }).strict();
+
+/** Generated price, time, date and counter drills; readings come from lib/numbers.ts. */
+export const numbersSectionSchema = z
+  .object({
+    type: z.literal('numbers'),
+    title: text,
+    drills: z
+      .array(z.enum(['price', 'time', 'date', 'counter']))
+      .min(1)
+      .refine((drills) => new Set(drills).size === drills.length, 'lists a drill twice'),
+  })
+  .strict();
+
+/** Conjugation drill over every verb or adjective tagged with `pos` in the course; forms come from lib/conjugation.ts. */
+export const conjugationSectionSchema = z
+  .object({ type: z.literal('conjugation'), title: text, focus: z.enum(['verb', 'adjective']) })
+  .strict();
+
+export const unitSectionSchema = z.discriminatedUnion('type', [
+  vocabSectionSchema,
+  dialogueSectionSchema,
+  grammarSectionSchema,
+  cultureSectionSchema,
+  flashcardsSectionSchema,
+  quizSectionSchema,
+  kanaSectionSchema,
+  numbersSectionSchema,
+  conjugationSectionSchema,
+]);
+
+/** Section types every unit page is expected to have. */
+export const REQUIRED_SECTIONS = ['flashcards', 'quiz', 'vocab', 'dialogue', 'grammar'] satisfies z.infer<typeof unitSectionSchema>['type'][];
+
+export const unitDataSchema = z
+  .object({
+    id: text,
+    title: text,
+    intro: text,
+    sections: z.array(unitSectionSchema).min(1),
+  })
+  .strict()
+  .superRefine((unit, ctx) => {
+    for (const type of REQUIRED_SECTIONS) {
+      if (!unit.sections.some((s) => s.type === type)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sections'], message: `missing a "${type}" section` });
+      }
+    }
+    // Checked here because the discriminated union only takes plain object schemas
+    unit.sections.forEach((section, i) => {
+      if (section.type !== 'dialogue') return;
+      const speakers = new Set(section.lines.map((line) => line.speaker));
+      section.learner.forEach((speaker, j) => {
+        if (!speakers.has(speaker)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['sections', i, 'learner', j], message: `"${speaker}" never speaks in this dialogue` });
+        }
+      });
+    });
+  });
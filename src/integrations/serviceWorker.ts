@@ -0,0 +1,56 @@
+import type { AstroIntegration } from 'astro';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { AUDIO_CACHE, PRECACHE_PREFIX } from '../lib/offline';
+
+// Writes dist/sw.js from src/pwa/sw.js once the build is done, inlining every
+// emitted file except audio as the precache list. The version is a hash of
+// those files, so a deploy that changes anything installs a new worker.
+
+function listFiles(dir: string, prefix = ''): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+    entry.isDirectory()
+      ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+      : [`${prefix}${entry.name}`]
+  );
+}
+
+// `chapters/1/unit3/index.html` → `chapters/1/unit3/`, matching the worker's cache keys
+const toUrl = (base: string, file: string) => `${base}${file.replace(/(^|\/)index\.html$/, '$1')}`;
+
+export default function serviceWorker(): AstroIntegration {
+  let root = '';
+  let base = '/';
+
+  return {
+    name: 'jlearn:service-worker',
+    hooks: {
+      'astro:config:setup': ({ config }) => {
+        root = fileURLToPath(config.root);
+        base = config.base.endsWith('/') ? config.base : `${config.base}/`;
+      },
+      'astro:build:done': ({ dir, logger }) => {
+        const outDir = fileURLToPath(dir);
+        const files = listFiles(outDir)
+          .filter((f) => f !== 'sw.js' && !f.startsWith('audio/'))
+          .sort();
+
+        const hash = createHash('sha256');
+        for (const file of files) hash.update(file).update(readFileSync(path.join(outDir, file)));
+
+        const precache = {
+          version: hash.digest('hex').slice(0, 12),
+          base,
+          urls: files.map((f) => toUrl(base, f)),
+          audioCache: AUDIO_CACHE,
+          precachePrefix: PRECACHE_PREFIX,
+        };
+        const template = readFileSync(path.join(root, 'src', 'pwa', 'sw.js'), 'utf-8');
+        writeFileSync(path.join(outDir, 'sw.js'), template.replace('__PRECACHE__', JSON.stringify(precache)));
+        logger.info(`sw.js precaches ${files.length} files (version ${precache.version})`);
+      },
+    },
+  };
+}
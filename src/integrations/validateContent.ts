@@ -0,0 +1,146 @@
+import type { AstroIntegration } from 'astro';
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { chapters } from '../data/chapters';
+import { unitDataSchema } from '../data/schema';
+
+// Validates every unit JSON against the schemas in src/data/schema.ts and
+// cross-checks the files against the chapters.ts manifest, which must list
+// each of them exactly once. A build with broken content
+// fails; the dev server reports problems and keeps running.
+
+export interface ContentIssue {
+  /** Relative to the project root, e.g. `src/data/ch1/unit3.json` */
+  file: string;
+  /** JSON path inside the file, e.g. `sections[4].questions[2].correct` */
+  path: string;
+  message: string;
+}
+
+const formatPath = (keys: (string | number)[]) =>
+  keys.reduce<string>((out, key) => (typeof key === 'number' ? `${out}[${key}]` : out ? `${out}.${key}` : key), '');
+
+// Every `audio` value in a unit, wherever it sits
+function findAudio(value: unknown, keys: (string | number)[], found: { keys: (string | number)[]; audio: string }[]) {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => findAudio(item, [...keys, i], found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === 'audio' && typeof item === 'string') found.push({ keys: [...keys, key], audio: item });
+      else findAudio(item, [...keys, key], found);
+    }
+  }
+  return found;
+}
+
+function validateUnitFile(root: string, chapterDir: string, fileName: string): ContentIssue[] {
+  const file = `src/data/${chapterDir}/${fileName}`;
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path.join(root, file), 'utf-8'));
+  } catch (e) {
+    return [{ file, path: '', message: `invalid JSON: ${(e as Error).message}` }];
+  }
+
+  const result = unitDataSchema.safeParse(data);
+  const issues: ContentIssue[] = result.success
+    ? []
+    : result.error.issues.map((issue) => ({ file, path: formatPath(issue.path), message: issue.message }));
+
+  const expectedId = `${chapterDir}-${fileName.replace('.json', '')}`;
+  const id = (data as { id?: unknown })?.id;
+  if (typeof id === 'string' && id !== expectedId) {
+    issues.push({ file, path: 'id', message: `is "${id}", expected "${expectedId}" to match the file name` });
+  }
+
+  for (const { keys, audio } of findAudio(data, [], [])) {
+    if (!existsSync(path.join(root, 'public', audio))) {
+      issues.push({ file, path: formatPath(keys), message: `audio file not found: public/${audio}` });
+    }
+  }
+  return issues;
+}
+
+export function validateContent(root: string): { units: number; issues: ContentIssue[] } {
+  const dataDir = path.join(root, 'src', 'data');
+  const issues: ContentIssue[] = [];
+  const found = new Set<string>();
+
+  for (const chapterDir of readdirSync(dataDir).filter((d) => /^ch\d+$/.test(d))) {
+    for (const fileName of readdirSync(path.join(dataDir, chapterDir)).filter((f) => /^unit\d+\.json$/.test(f))) {
+      found.add(`${chapterDir}/${fileName.replace('.json', '')}`);
+      issues.push(...validateUnitFile(root, chapterDir, fileName));
+    }
+  }
+
+  // Insertion order is the learning path, so prerequisites must already be in the set
+  const listed = new Set<string>();
+  for (const ch of chapters) {
+    for (const u of ch.units) {
+      const key = `ch${ch.id}/${u.id}`;
+      if (listed.has(key)) issues.push({ file: 'src/data/chapters.ts', path: key, message: 'listed more than once' });
+      for (const prerequisite of u.prerequisites || []) {
+        if (!listed.has(prerequisite)) {
+          issues.push({
+            file: 'src/data/chapters.ts',
+            path: `${key}.prerequisites`,
+            message: `"${prerequisite}" is not a unit listed earlier in the course`,
+          });
+        }
+      }
+      listed.add(key);
+    }
+  }
+  for (const key of listed) {
+    if (!found.has(key)) {
+      issues.push({ file: 'src/data/chapters.ts', path: key, message: `listed, but src/data/${key}.json does not exist` });
+    }
+  }
+  for (const key of found) {
+    if (!listed.has(key)) {
+      issues.push({ file: `src/data/${key}.json`, path: '', message: 'not listed in src/data/chapters.ts' });
+    }
+  }
+
+  return { units: found.size, issues };
+}
+
+export function formatIssues(issues: ContentIssue[]): string {
+  const byFile = new Map<string, ContentIssue[]>();
+  for (const issue of issues) byFile.set(issue.file, [...(byFile.get(issue.file) || []), issue]);
+  return [...byFile.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([file, list]) => [file, ...list.map((i) => `  ${i.path ? `${i.path}: ` : ''}${i.message}`)].join('\n'))
+    .join('\n');
+}
+
+export default function contentValidation(): AstroIntegration {
+  let root = '';
+
+  const run = (logger: { info: (m: string) => void; error: (m: string) => void }, failOnError: boolean) => {
+    const { units, issues } = validateContent(root);
+    if (issues.length === 0) {
+      logger.info(`${units} units passed content validation`);
+      return;
+    }
+    const report = `${issues.length} content problem(s):\n${formatIssues(issues)}`;
+    if (failOnError) throw new Error(report);
+    logger.error(report);
+  };
+
+  return {
+    name: 'jlearn:content-validation',
+    hooks: {
+      'astro:config:setup': ({ config, command, logger }) => {
+        root = fileURLToPath(config.root);
+        run(logger, command === 'build');
+      },
+      'astro:server:setup': ({ server, logger }) => {
+        server.watcher.on('change', (file) => {
+          if (/src[\\/]data[\\/]/.test(file)) run(logger, false);
+        });
+      },
+    },
+  };
+}
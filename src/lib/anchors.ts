@@ -0,0 +1,23 @@
+import { stripFurigana } from './furigana';
+
+// Element IDs on unit pages, shared by the section components that render them
+// and the search index that links to them. Vocab and grammar IDs come from the
+// text itself so they survive reordering; dialogue lines and culture blocks
+// repeat too often for that and are numbered by section instead.
+
+const slug = (text: string) => stripFurigana(text).trim().replace(/[\s#%?/\\"'<>]+/g, '-');
+
+export const vocabAnchor = (japanese: string) => `vocab-${slug(japanese)}`;
+
+export const grammarAnchor = (pattern: string) => `grammar-${slug(pattern)}`;
+
+export const sectionAnchor = (type: string, sectionIndex: number) => `${type}-${sectionIndex + 1}`;
+
+export const dialogueLineAnchor = (sectionIndex: number, lineIndex: number) =>
+  `${sectionAnchor('dialogue', sectionIndex)}-${lineIndex + 1}`;
+
+export const cultureTipAnchor = (sectionIndex: number, tipIndex: number) =>
+  `${sectionAnchor('culture', sectionIndex)}-tip-${tipIndex + 1}`;
+
+/** Page URL for an anchor; IDs may contain kana and kanji, so the fragment is encoded. */
+export const anchorHref = (pageUrl: string, anchor: string) => `${pageUrl}#${encodeURIComponent(anchor)}`;
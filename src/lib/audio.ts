@@ -0,0 +1,56 @@
+// Audio clips live under public/ and are referenced from unit JSON by their
+// path relative to it, e.g. `audio/ch1/unit10/3f2a9c1b7e.m4a`.
+
+let current: HTMLAudioElement | null = null;
+let stopSequence: (() => void) | null = null;
+
+export function audioUrl(path: string): string {
+  return `${import.meta.env.BASE_URL}${path}`;
+}
+
+export function stopAudio() {
+  stopSequence?.();
+  stopSequence = null;
+  current?.pause();
+  current = null;
+}
+
+/** Plays one clip, stopping whatever was playing before. */
+export function playAudio(src: string): HTMLAudioElement {
+  stopAudio();
+  const audio = new Audio(src);
+  current = audio;
+  audio.play().catch((err) => console.warn(`[jlearn] Could not play ${src}`, err));
+  return audio;
+}
+
+/**
+ * Plays clips back to back. `onStep` receives the index being played, then -1
+ * once the sequence finishes or is interrupted.
+ */
+export function playSequence(srcs: string[], onStep: (index: number) => void) {
+  stopAudio();
+  let index = 0;
+  let cancelled = false;
+  const cancel = () => {
+    cancelled = true;
+    onStep(-1);
+  };
+  const next = () => {
+    if (cancelled) return;
+    if (index >= srcs.length) {
+      stopSequence = null;
+      onStep(-1);
+      return;
+    }
+    onStep(index);
+    // Keep playAudio from cancelling this very sequence, then re-arm it
+    stopSequence = null;
+    const audio = playAudio(srcs[index]);
+    stopSequence = cancel;
+    index++;
+    audio.addEventListener('ended', next, { once: true });
+    audio.addEventListener('error', next, { once: true });
+  };
+  next();
+}
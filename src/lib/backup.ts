@@ -0,0 +1,194 @@
+import { PROGRESS_VERSION, loadProgress, migrate, progressError, saveProgress } from './progress';
+import type { ProgressStore, QuizAttempt, UnitProgress } from './progress';
+import { isNumber, isObject } from './storage';
+import { loadDeck, saveDeck } from './srs';
+import type { CardState } from './srs';
+import { loadNotebook, saveNotebook } from './notebook';
+import type { NotebookEntry } from './notebook';
+import { loadKanaStats, saveKanaStats } from './kanaDrill';
+import type { KanaStat } from './kanaDrill';
+import { loadFavorites, saveFavorites } from './phrasebook';
+
+// Portable snapshot of everything the learner has stored in this browser.
+
+export interface BackupFile {
+  app: 'jlearn';
+  version: 1;
+  exportedAt: string;
+  progress: ProgressStore;
+  srs: Record<string, CardState>;
+  /** Absent in backups made before the notebook existed */
+  notebook?: Record<string, NotebookEntry>;
+  /** Kana drill results; absent in older backups too */
+  kana?: Record<string, KanaStat>;
+  /** Starred phrasebook entries by phrase ID, newest first; absent in older backups too */
+  phrasebook?: string[];
+}
+
+export interface ImportSummary {
+  units: number;
+  attempts: number;
+  cards: number;
+  notes: number;
+  phrases: number;
+}
+
+const BACKUP_VERSION = 1;
+
+export function createBackup(): BackupFile {
+  return {
+    app: 'jlearn',
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    progress: loadProgress(),
+    srs: loadDeck(),
+    notebook: loadNotebook(),
+    kana: loadKanaStats(),
+    phrasebook: loadFavorites(),
+  };
+}
+
+export function downloadBackup() {
+  const backup = createBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `jlearn-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  a.click();
+  // Some browsers start the download after click() returns; revoking now would cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function isCardState(v: unknown): v is CardState {
+  return isObject(v) && ['ease', 'interval', 'reps', 'lapses', 'due', 'lastReview'].every((k) => isNumber(v[k]));
+}
+
+function isKanaStat(v: unknown): v is KanaStat {
+  return isObject(v) && ['seen', 'correct', 'time', 'last'].every((k) => isNumber(v[k]));
+}
+
+function isNotebookEntry(v: unknown): v is NotebookEntry {
+  return (
+    isObject(v) &&
+    ['vocab', 'grammar', 'dialogue'].includes(v.kind as string) &&
+    ['id', 'unitId', 'href', 'japanese', 'chinese', 'note'].every((k) => typeof v[k] === 'string') &&
+    isNumber(v.chapterId) &&
+    isNumber(v.updatedAt) &&
+    typeof v.bookmarked === 'boolean'
+  );
+}
+
+/** Validates an untrusted backup; throws with a learner-facing message. */
+export function parseBackup(raw: unknown): BackupFile {
+  if (!isObject(raw) || raw.app !== 'jlearn') throw new Error('這不是 JLearn 的備份檔');
+  if (raw.version !== BACKUP_VERSION) throw new Error(`不支援的備份檔版本：${String(raw.version)}`);
+  if (!isObject(raw.progress) || !isObject(raw.srs)) throw new Error('備份檔缺少學習紀錄');
+  if (raw.progress.version !== undefined && raw.progress.version !== PROGRESS_VERSION) {
+    throw new Error(`不支援的學習紀錄版本：${String(raw.progress.version)}`);
+  }
+  // Checked before migrate(), which would quietly replace a malformed store with an empty one
+  const progressProblem = raw.progress.version === PROGRESS_VERSION ? progressError(raw.progress) : null;
+  if (progressProblem) throw new Error(progressProblem);
+
+  const progress = migrate(raw.progress);
+  for (const [id, state] of Object.entries(raw.srs)) {
+    if (!isCardState(state)) throw new Error(`單字卡「${id}」的紀錄格式錯誤`);
+  }
+  if (raw.notebook !== undefined && (!isObject(raw.notebook) || !Object.values(raw.notebook).every(isNotebookEntry))) {
+    throw new Error('筆記本紀錄格式錯誤');
+  }
+  if (raw.kana !== undefined && (!isObject(raw.kana) || !Object.values(raw.kana).every(isKanaStat))) {
+    throw new Error('假名練習紀錄格式錯誤');
+  }
+  if (raw.phrasebook !== undefined && (!Array.isArray(raw.phrasebook) || !raw.phrasebook.every((id) => typeof id === 'string'))) {
+    throw new Error('旅遊會話本收藏格式錯誤');
+  }
+
+  return {
+    app: 'jlearn',
+    version: BACKUP_VERSION,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    progress,
+    srs: raw.srs as Record<string, CardState>,
+    notebook: raw.notebook as Record<string, NotebookEntry> | undefined,
+    kana: raw.kana as Record<string, KanaStat> | undefined,
+    phrasebook: raw.phrasebook as string[] | undefined,
+  };
+}
+
+// Attempt histories are unioned, so both the newest attempt and the best score
+// from either side survive the merge.
+function mergeUnit(a: UnitProgress | undefined, b: UnitProgress): UnitProgress {
+  const attempts = new Map<string, QuizAttempt>();
+  for (const attempt of [...(a?.attempts || []), ...b.attempts]) {
+    attempts.set(`${attempt.at}:${attempt.score}:${attempt.total ?? ''}`, attempt);
+  }
+  return {
+    completed: Boolean(a?.completed || b.completed),
+    attempts: [...attempts.values()].sort((x, y) => x.at - y.at),
+  };
+}
+
+export function mergeBackup(backup: BackupFile): ImportSummary {
+  const summary: ImportSummary = { units: 0, attempts: 0, cards: 0, notes: 0, phrases: 0 };
+
+  const progress = loadProgress();
+  for (const [key, unit] of Object.entries(backup.progress.units)) {
+    const before = progress.units[key]?.attempts.length || 0;
+    progress.units[key] = mergeUnit(progress.units[key], unit);
+    summary.units++;
+    summary.attempts += progress.units[key].attempts.length - before;
+  }
+  if (backup.progress.activity) {
+    const activity = { ...progress.activity };
+    for (const [day, count] of Object.entries(backup.progress.activity)) {
+      activity[day] = Math.max(activity[day] || 0, count);
+    }
+    progress.activity = activity;
+  }
+  if (backup.progress.lastVisit && backup.progress.lastVisit.at > (progress.lastVisit?.at ?? -1)) {
+    progress.lastVisit = backup.progress.lastVisit;
+  }
+
+  // Flashcards: whichever side reviewed the card most recently wins
+  const deck = loadDeck();
+  for (const [id, state] of Object.entries(backup.srs)) {
+    const current = deck[id];
+    if (!current || state.lastReview > current.lastReview) {
+      deck[id] = state;
+      summary.cards++;
+    }
+  }
+
+  // Notebook: the most recently edited entry wins
+  const notebook = loadNotebook();
+  for (const [id, entry] of Object.entries(backup.notebook || {})) {
+    if (!notebook[id] || entry.updatedAt > notebook[id].updatedAt) {
+      notebook[id] = entry;
+      summary.notes++;
+    }
+  }
+
+  // Kana drills: counts can't be unioned, so the side that practised last wins
+  const kana = loadKanaStats();
+  for (const [char, stat] of Object.entries(backup.kana || {})) {
+    if (!kana[char] || stat.last > kana[char].last) kana[char] = stat;
+  }
+
+  // Phrasebook: stars are unioned; the backup's extra ones go after this browser's
+  const favorites = loadFavorites();
+  const added = (backup.phrasebook || []).filter((id, i, all) => !favorites.includes(id) && all.indexOf(id) === i);
+  summary.phrases = added.length;
+
+  if (
+    !saveProgress(progress) ||
+    !saveDeck(deck) ||
+    !saveNotebook(notebook) ||
+    !saveKanaStats(kana) ||
+    !saveFavorites([...favorites, ...added])
+  ) {
+    throw new Error('無法寫入瀏覽器儲存空間');
+  }
+  return summary;
+}
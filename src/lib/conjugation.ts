@@ -0,0 +1,215 @@
+import type { UnitData, VocabItem } from '../data/loadUnit';
+import { normalizeAnswer } from './kana';
+
+// Conjugation of verbs and adjectives tagged with `pos` (and verbs with
+// `verbGroup`) in the unit files. Both the written form and the reading are
+// conjugated, since they share the kana ending the rules work on.
+
+type Random = () => number;
+
+export type PartOfSpeech = NonNullable<VocabItem['pos']>;
+export type VerbGroup = NonNullable<VocabItem['verbGroup']>;
+
+export type VerbForm = 'masu' | 'masen' | 'mashita' | 'te' | 'nai' | 'tai';
+export type AdjectiveForm = 'negative' | 'past' | 'pastNegative' | 'te';
+export type ConjugationForm = VerbForm | AdjectiveForm;
+
+export interface ConjugatableWord {
+  japanese: string;
+  reading: string;
+  chinese: string;
+  pos: 'verb' | 'i-adjective' | 'na-adjective';
+  verbGroup?: VerbGroup;
+}
+
+export const VERB_FORMS: { value: VerbForm; label: string }[] = [
+  { value: 'masu', label: 'ます形' },
+  { value: 'masen', label: 'ません（否定）' },
+  { value: 'mashita', label: 'ました（過去）' },
+  { value: 'te', label: 'て形' },
+  { value: 'nai', label: 'ない形' },
+  { value: 'tai', label: 'たい形（想要）' },
+];
+
+export const ADJECTIVE_FORMS: { value: AdjectiveForm; label: string }[] = [
+  { value: 'negative', label: '否定' },
+  { value: 'past', label: '過去' },
+  { value: 'pastNegative', label: '過去否定' },
+  { value: 'te', label: 'て形' },
+];
+
+export const VERB_GROUP_LABELS: Record<VerbGroup, string> = {
+  godan: '第一類（五段動詞）',
+  ichidan: '第二類（一段動詞）',
+  irregular: '第三類（不規則動詞）',
+};
+
+// Godan endings by vowel row: う-row → い-row (ます stem) and あ-row (ない stem)
+const I_ROW: Record<string, string> = { う: 'い', く: 'き', ぐ: 'ぎ', す: 'し', つ: 'ち', ぬ: 'に', ぶ: 'び', む: 'み', る: 'り' };
+const A_ROW: Record<string, string> = { う: 'わ', く: 'か', ぐ: 'が', す: 'さ', つ: 'た', ぬ: 'な', ぶ: 'ば', む: 'ま', る: 'ら' };
+const TE: Record<string, string> = { う: 'って', つ: 'って', る: 'って', ぬ: 'んで', ぶ: 'んで', む: 'んで', く: 'いて', ぐ: 'いで', す: 'して' };
+
+// Honorific verbs whose ます stem ends in い: おっしゃいます, but おっしゃりたい
+const HONORIFIC_STEMS = ['なさる', 'くださる', 'いらっしゃる', 'おっしゃる', 'ござる'];
+
+/** A written form and its reading, conjugated together. */
+export interface Conjugated {
+  japanese: string;
+  reading: string;
+}
+
+// Swap the last `drop` characters of both forms for `suffix`
+function replaceEnding(word: Conjugated, drop: number, suffix: string | Conjugated): Conjugated {
+  const [japanese, reading] = typeof suffix === 'string' ? [suffix, suffix] : [suffix.japanese, suffix.reading];
+  return { japanese: word.japanese.slice(0, word.japanese.length - drop) + japanese, reading: word.reading.slice(0, word.reading.length - drop) + reading };
+}
+
+function verbStems(word: ConjugatableWord): { masu: Conjugated; i: Conjugated; a: Conjugated; te: Conjugated } {
+  const last = word.reading.slice(-1);
+  if (word.verbGroup === 'irregular') {
+    if (word.reading.endsWith('する')) {
+      const stem = replaceEnding(word, 2, 'し');
+      return { masu: stem, i: stem, a: stem, te: replaceEnding(word, 2, 'して') };
+    }
+    // 来る: the kanji stays, only its reading changes
+    const kuru = (reading: string, suffix: string): Conjugated => ({
+      japanese: word.japanese.endsWith('来る') ? `${word.japanese.slice(0, -1)}${suffix}` : word.japanese.slice(0, -2) + reading + suffix,
+      reading: word.reading.slice(0, -2) + reading + suffix,
+    });
+    return { masu: kuru('き', ''), i: kuru('き', ''), a: kuru('こ', ''), te: kuru('き', 'て') };
+  }
+  if (word.verbGroup === 'ichidan') {
+    const stem = replaceEnding(word, 1, '');
+    return { masu: stem, i: stem, a: stem, te: replaceEnding(word, 1, 'て') };
+  }
+  const honorific = HONORIFIC_STEMS.some((v) => word.reading.endsWith(v));
+  // 行く is the one く-verb whose て form is って
+  const te = word.reading.endsWith('いく') && /(行|い)く$/.test(word.japanese) ? 'って' : TE[last];
+  return {
+    masu: replaceEnding(word, 1, honorific ? 'い' : I_ROW[last]),
+    i: replaceEnding(word, 1, I_ROW[last]),
+    a: replaceEnding(word, 1, A_ROW[last]),
+    te: replaceEnding(word, 1, te),
+  };
+}
+
+function conjugateVerb(word: ConjugatableWord, form: VerbForm): Conjugated {
+  const stems = verbStems(word);
+  const add = (stem: Conjugated, suffix: string) => ({ japanese: stem.japanese + suffix, reading: stem.reading + suffix });
+  switch (form) {
+    case 'masu':
+      return add(stems.masu, 'ます');
+    case 'masen':
+      return add(stems.masu, 'ません');
+    case 'mashita':
+      return add(stems.masu, 'ました');
+    case 'te':
+      return stems.te;
+    case 'nai':
+      // ある has no あらない
+      return word.reading === 'ある' ? { japanese: 'ない', reading: 'ない' } : add(stems.a, 'ない');
+    case 'tai':
+      return add(stems.i, 'たい');
+  }
+}
+
+const I_ADJECTIVE_ENDINGS: Record<AdjectiveForm, string> = { negative: 'くない', past: 'かった', pastNegative: 'くなかった', te: 'くて' };
+const NA_ADJECTIVE_ENDINGS: Record<AdjectiveForm, string> = { negative: 'じゃない', past: 'だった', pastNegative: 'じゃなかった', te: 'で' };
+
+// いい and the compounds built on it conjugate from the older form よい:
+// よくない, よかった. Other adjectives that happen to end in いい (かわいい) are regular.
+const YOI_ADJECTIVES = ['いい', 'かっこいい', 'ちょうどいい', 'きもちいい'];
+
+function conjugateAdjective(word: ConjugatableWord, form: AdjectiveForm): Conjugated {
+  if (word.pos === 'na-adjective') return replaceEnding(word, 0, NA_ADJECTIVE_ENDINGS[form]);
+  if (YOI_ADJECTIVES.includes(word.reading)) {
+    const stem = word.japanese.endsWith('いい') ? replaceEnding(word, 2, 'よ') : { japanese: word.japanese.slice(0, -1), reading: word.reading.slice(0, -2) + 'よ' };
+    return { japanese: stem.japanese + I_ADJECTIVE_ENDINGS[form], reading: stem.reading + I_ADJECTIVE_ENDINGS[form] };
+  }
+  return replaceEnding(word, 1, I_ADJECTIVE_ENDINGS[form]);
+}
+
+export function formsFor(word: ConjugatableWord): ConjugationForm[] {
+  return (word.pos === 'verb' ? VERB_FORMS : ADJECTIVE_FORMS).map((f) => f.value);
+}
+
+export function conjugate(word: ConjugatableWord, form: ConjugationForm): Conjugated {
+  return word.pos === 'verb' ? conjugateVerb(word, form as VerbForm) : conjugateAdjective(word, form as AdjectiveForm);
+}
+
+export interface ConjugationQuestion {
+  word: ConjugatableWord;
+  form: ConjugationForm;
+}
+
+/** A random word and one of `forms` that applies to it, never the previous word twice running. */
+export function nextConjugationQuestion(
+  words: ConjugatableWord[],
+  forms: ConjugationForm[],
+  previous?: ConjugationQuestion,
+  random: Random = Math.random
+): ConjugationQuestion | null {
+  const candidates = words.filter((w) => formsFor(w).some((f) => forms.includes(f)));
+  const pool = candidates.length > 1 ? candidates.filter((w) => w !== previous?.word) : candidates;
+  if (pool.length === 0) return null;
+  const word = pool[Math.floor(random() * pool.length)];
+  const applicable = formsFor(word).filter((f) => forms.includes(f));
+  return { word, form: applicable[Math.floor(random() * applicable.length)] };
+}
+
+/**
+ * The written form or its reading, in kana or romaji; な-adjectives also take
+ * では for じゃ, romanised as the particle is said (`dewa`) or spelt (`deha`).
+ */
+export function checkConjugation(word: ConjugatableWord, form: ConjugationForm, input: string): boolean {
+  const answer = normalizeAnswer(input);
+  if (!answer) return false;
+  const { japanese, reading } = conjugate(word, form);
+  const accepted = [japanese, reading].map(normalizeAnswer);
+  if (word.pos === 'na-adjective') {
+    const dewa = [japanese, reading].map((a) => normalizeAnswer(a.replace(/じゃ(?=な)/, 'では')));
+    accepted.push(...dewa, ...dewa.map((a) => a.replace(/deha(?=na)/, 'dewa')));
+  }
+  return accepted.includes(answer);
+}
+
+/**
+ * Why a tagged vocab item can't be conjugated, or null when it can. The unit
+ * schema runs this so a wrong tag fails the build instead of drilling nonsense.
+ */
+export function conjugationError(item: Pick<VocabItem, 'japanese' | 'reading' | 'pos' | 'verbGroup'>): string | null {
+  const { reading, pos, verbGroup } = item;
+  if (verbGroup && pos !== 'verb') return 'verbGroup is only for verbs';
+  if (pos === 'verb') {
+    if (!verbGroup) return 'verbs need a verbGroup';
+    if (verbGroup === 'godan' && !(reading.slice(-1) in I_ROW)) return `"${reading}" does not end in an う-row kana`;
+    if (verbGroup === 'ichidan' && !/[いきぎしじちにひびみりえけげせぜてでねへべめれ]る$/.test(reading)) return `"${reading}" is not an -iru/-eru verb`;
+    if (verbGroup === 'irregular' && !/(する|くる)$/.test(reading)) return `"${reading}" is not する or 来る`;
+    if (item.japanese.slice(-1) !== reading.slice(-1)) return 'the written form and the reading must share their last kana';
+  }
+  if (pos === 'i-adjective') {
+    if (!(reading.endsWith('い') && item.japanese.endsWith('い'))) return `"${reading}" does not end in い`;
+    const yoi = YOI_ADJECTIVES.includes(reading);
+    if (yoi && !/(いい|良い)$/.test(item.japanese)) return `"${item.japanese}" is not written with いい or 良い`;
+    if (!yoi && /良い$/.test(item.japanese) && !reading.endsWith('よい')) {
+      return `"${reading}" conjugates like いい; add it to YOI_ADJECTIVES in lib/conjugation.ts`;
+    }
+  }
+  return null;
+}
+
+/** Tagged verbs and adjectives of the given units, first occurrence of each word. */
+export function collectConjugatableWords(units: UnitData[]): ConjugatableWord[] {
+  const words = new Map<string, ConjugatableWord>();
+  for (const unit of units) {
+    for (const section of unit.sections) {
+      const items = section.type === 'vocab' ? section.items : section.type === 'flashcards' ? section.cards : [];
+      for (const { japanese, reading, chinese, pos, verbGroup } of items) {
+        if ((pos === 'verb' || pos === 'i-adjective' || pos === 'na-adjective') && !words.has(japanese)) {
+          words.set(japanese, { japanese, reading, chinese, pos, ...(verbGroup && { verbGroup }) });
+        }
+      }
+    }
+  }
+  return [...words.values()];
+}
@@ -0,0 +1,42 @@
+// Ruby annotations in unit JSON: `{漢字|かんじ}` marks `漢字` as read `かんじ`.
+// Anything outside braces is plain text.
+
+export interface RubySegment {
+  text: string;
+  reading?: string;
+}
+
+const ANNOTATION = /\{([^{}|]+)\|([^{}|]+)\}/g;
+
+export function parseFurigana(source: string): RubySegment[] {
+  const segments: RubySegment[] = [];
+  let last = 0;
+  for (const match of source.matchAll(ANNOTATION)) {
+    if (match.index > last) segments.push({ text: source.slice(last, match.index) });
+    segments.push({ text: match[1], reading: match[2] });
+    last = match.index + match[0].length;
+  }
+  if (last < source.length) segments.push({ text: source.slice(last) });
+  return segments;
+}
+
+/** Plain text without readings, for search, previews and comparisons. */
+export function stripFurigana(source: string): string {
+  return source.replace(ANNOTATION, '$1');
+}
+
+/** Text with every annotated span replaced by its reading. */
+export function toKana(source: string): string {
+  return source.replace(ANNOTATION, '$2');
+}
+
+/** Describes each malformed annotation; an empty array means the string is valid. */
+export function findFuriganaErrors(source: string): string[] {
+  const errors: string[] = [];
+  const rest = source.replace(ANNOTATION, (whole) => ' '.repeat(whole.length));
+  for (const match of rest.matchAll(/[{}|]/g)) {
+    const near = source.slice(Math.max(0, match.index - 4), match.index + 5);
+    errors.push(`stray "${match[0]}" at ${match.index} near "${near}"`);
+  }
+  return errors;
+}
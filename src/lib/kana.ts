@@ -0,0 +1,163 @@
+// Kana ⇄ romaji conversion and the lenient normal form used to compare
+// learner input with expected answers.
+
+const ROMAJI_TO_KANA: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  sa: 'さ', shi: 'し', si: 'し', su: 'す', se: 'せ', so: 'そ',
+  za: 'ざ', ji: 'じ', zi: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ta: 'た', chi: 'ち', ti: 'ち', tsu: 'つ', tu: 'つ', te: 'て', to: 'と',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', fu: 'ふ', hu: 'ふ', he: 'へ', ho: 'ほ',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  wa: 'わ', wo: 'を',
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', sya: 'しゃ', syu: 'しゅ', syo: 'しょ', she: 'しぇ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ', je: 'じぇ', zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ', jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', che: 'ちぇ', tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ', cya: 'ちゃ', cyu: 'ちゅ', cyo: 'ちょ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ',
+  wi: 'うぃ', we: 'うぇ', va: 'ゔぁ', vi: 'ゔぃ', vu: 'ゔ', ve: 'ゔぇ', vo: 'ゔぉ',
+};
+
+// Hepburn spelling for each kana: the first spelling listed above wins
+const KANA_TO_ROMAJI: Record<string, string> = {};
+for (const [romaji, kana] of Object.entries(ROMAJI_TO_KANA)) {
+  if (!(kana in KANA_TO_ROMAJI)) KANA_TO_ROMAJI[kana] = romaji;
+}
+Object.assign(KANA_TO_ROMAJI, {
+  ん: 'n', ゐ: 'i', ゑ: 'e', ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o', ゃ: 'ya', ゅ: 'yu', ょ: 'yo', ゎ: 'wa',
+});
+
+const MACRONS: Record<string, string> = { ā: 'aa', ī: 'ii', ū: 'uu', ē: 'ee', ō: 'ou', â: 'aa', î: 'ii', û: 'uu', ê: 'ee', ô: 'ou' };
+const VOWELS = 'aeiou';
+
+export function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+}
+
+export function hiraganaToKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) + 0x60));
+}
+
+export function isKana(ch: string): boolean {
+  return /^[ぁ-ゖァ-ヺー]$/.test(ch);
+}
+
+/** Converts romaji (Hepburn, kunrei or IME spellings, macrons allowed) to hiragana; other characters pass through. */
+export function romajiToHiragana(input: string): string {
+  const text = input.toLowerCase().replace(/[āīūēōâîûêô]/g, (ch) => MACRONS[ch]);
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (ch === 'n') {
+      if (next === "'") {
+        out += 'ん';
+        i += 2;
+        continue;
+      }
+      if (!next || (!VOWELS.includes(next) && next !== 'y')) {
+        // "nn" is ん unless it starts a な-row syllable: konnichiwa → こんにちわ
+        const afterNn = text[i + 2];
+        const consumed = next === 'n' && (!afterNn || (!VOWELS.includes(afterNn) && afterNn !== 'y')) ? 2 : 1;
+        out += 'ん';
+        i += consumed;
+        continue;
+      }
+    }
+
+    // Doubled consonant → small tsu (also "tch" as in matcha)
+    if (next && ch === next && /[bcdfghjklmpqrstvwxyz]/.test(ch)) {
+      out += 'っ';
+      i += 1;
+      continue;
+    }
+    if (ch === 't' && next === 'c' && text[i + 2] === 'h') {
+      out += 'っ';
+      i += 1;
+      continue;
+    }
+
+    let matched = false;
+    for (const len of [3, 2, 1]) {
+      const chunk = text.slice(i, i + len);
+      if (ROMAJI_TO_KANA[chunk]) {
+        out += ROMAJI_TO_KANA[chunk];
+        i += len;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      out += ch === '-' ? 'ー' : ch;
+      i += 1;
+    }
+  }
+  return out;
+}
+
+/** Converts kana (either script) to Hepburn romaji; other characters pass through. */
+export function kanaToRomaji(input: string): string {
+  const text = katakanaToHiragana(input);
+  let out = '';
+  let geminate = false;
+  for (let i = 0; i < text.length; i++) {
+    const pair = text.slice(i, i + 2);
+    let romaji: string;
+    if (pair.length === 2 && KANA_TO_ROMAJI[pair]) {
+      romaji = KANA_TO_ROMAJI[pair];
+      i++;
+    } else if (text[i] === 'っ') {
+      geminate = true;
+      continue;
+    } else if (text[i] === 'ん') {
+      // かんい is kan'i, not かに
+      const following = KANA_TO_ROMAJI[text[i + 1]] || '';
+      romaji = /^[aeiouy]/.test(following) ? "n'" : 'n';
+    } else if (text[i] === 'ー') {
+      const last = out[out.length - 1];
+      romaji = last && VOWELS.includes(last) ? last : '';
+    } else {
+      romaji = KANA_TO_ROMAJI[text[i]] ?? text[i];
+    }
+    if (geminate) {
+      out += romaji.startsWith('ch') ? 't' : romaji[0] || '';
+      geminate = false;
+    }
+    out += romaji;
+  }
+  return out;
+}
+
+/**
+ * Normal form for answer checking: kana, romaji and macron spellings of the
+ * same word compare equal, and long vowels are written the same way whether
+ * typed as ū, uu, ー or ou (gyūnyū = gyuunyuu = ぎゅうにゅう = ギューニュー).
+ */
+export function normalizeAnswer(input: string): string {
+  const cleaned = input
+    .normalize('NFC')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s・。、．，,.!?！？「」"()（）〜~]/g, '');
+  return kanaToRomaji(romajiToHiragana(cleaned))
+    .replace(/([aeiou])\1+/g, '$1:')
+    .replace(/ou/g, 'o:')
+    .replace(/ei/g, 'e:')
+    .replace(/:+/g, ':');
+}
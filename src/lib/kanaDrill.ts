@@ -0,0 +1,132 @@
+import { readJSON, writeJSON } from './storage';
+import { romajiToHiragana } from './kana';
+import { acceptedRomaji } from '../data/kana';
+import type { KanaCell } from '../data/kana';
+
+// Timed kana recognition drills and the per-character results they keep,
+// keyed by the kana that was asked (ひらがな and カタカナ are tracked separately).
+
+export interface KanaStat {
+  seen: number;
+  correct: number;
+  /** Sum of response times in milliseconds, for the average */
+  time: number;
+  /** Epoch milliseconds of the last answer */
+  last: number;
+}
+
+interface KanaStatsStore {
+  version: 1;
+  chars: Record<string, KanaStat>;
+}
+
+const STORAGE_KEY = 'jlearn-kana';
+
+export function loadKanaStats(): Record<string, KanaStat> {
+  const store = readJSON<KanaStatsStore | null>(STORAGE_KEY, null);
+  return store?.version === 1 ? store.chars : {};
+}
+
+export function saveKanaStats(chars: Record<string, KanaStat>): boolean {
+  const store: KanaStatsStore = { version: 1, chars };
+  return writeJSON(STORAGE_KEY, store);
+}
+
+export function recordKanaAnswer(kana: string, correct: boolean, ms: number, now = Date.now()): Record<string, KanaStat> {
+  const chars = loadKanaStats();
+  const stat = chars[kana] || { seen: 0, correct: 0, time: 0, last: 0 };
+  chars[kana] = {
+    seen: stat.seen + 1,
+    correct: stat.correct + (correct ? 1 : 0),
+    time: stat.time + ms,
+    last: now,
+  };
+  saveKanaStats(chars);
+  return chars;
+}
+
+/** Share of correct answers, or undefined before the first one. */
+export function kanaAccuracy(stat: KanaStat | undefined): number | undefined {
+  return stat && stat.seen > 0 ? stat.correct / stat.seen : undefined;
+}
+
+/**
+ * Drill weight: unseen and often-missed kana come up more, so a round spends
+ * its time where the learner is weakest.
+ */
+export function kanaWeight(stat: KanaStat | undefined): number {
+  const accuracy = kanaAccuracy(stat);
+  if (accuracy === undefined) return 3;
+  return 1 + 4 * (1 - accuracy);
+}
+
+export type KanaDrillMode = 'kana-romaji' | 'romaji-kana' | 'script';
+export type KanaScript = 'hiragana' | 'katakana' | 'both';
+
+export interface KanaQuestion {
+  cell: KanaCell;
+  prompt: string;
+  /** The kana whose stats this answer updates */
+  kana: string;
+  answer: string;
+  /** Four kana to pick from; absent when the answer is typed */
+  options?: string[];
+}
+
+type Random = () => number;
+
+function pickWeighted<T>(items: T[], weight: (item: T) => number, random: Random): T {
+  const weights = items.map(weight);
+  let roll = random() * weights.reduce((a, b) => a + b, 0);
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+// The answer among up to three others, at a random position
+function choices(answer: string, wrong: string[], random: Random): string[] {
+  const pool = [...new Set(wrong)];
+  const options: string[] = [];
+  while (options.length < 3 && pool.length > 0) {
+    options.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  options.splice(Math.floor(random() * (options.length + 1)), 0, answer);
+  return options;
+}
+
+/**
+ * The next question from `cells`, favouring weak kana (see kanaWeight) and
+ * never repeating `previous`. "script" asks the other script in either direction.
+ */
+export function nextKanaQuestion(
+  mode: KanaDrillMode,
+  script: KanaScript,
+  cells: KanaCell[],
+  stats: Record<string, KanaStat>,
+  previous?: KanaQuestion,
+  random: Random = Math.random
+): KanaQuestion {
+  const shown = (cell: KanaCell): 'hiragana' | 'katakana' =>
+    script === 'both' || mode === 'script' ? (random() < 0.5 ? 'hiragana' : 'katakana') : script;
+  const pool = cells.length > 1 && previous ? cells.filter((c) => c !== previous.cell) : cells;
+  const side = new Map(pool.map((cell) => [cell, shown(cell)]));
+  const cell = pickWeighted(pool, (c) => kanaWeight(stats[c[side.get(c)!]]), random);
+  const from = side.get(cell)!;
+  const to = from === 'hiragana' ? 'katakana' : 'hiragana';
+  // じ and ぢ are both "ji": never offer two kana that read the same
+  const others = cells.filter((c) => c.romaji !== cell.romaji);
+
+  if (mode === 'kana-romaji') return { cell, prompt: cell[from], kana: cell[from], answer: cell.romaji };
+  if (mode === 'romaji-kana') {
+    return { cell, prompt: cell.romaji, kana: cell[from], answer: cell[from], options: choices(cell[from], others.map((c) => c[from]), random) };
+  }
+  return { cell, prompt: cell[from], kana: cell[from], answer: cell[to], options: choices(cell[to], others.map((c) => c[to]), random) };
+}
+
+export function checkKanaAnswer(question: KanaQuestion, input: string): boolean {
+  if (question.options) return input === question.answer;
+  const typed = input.trim().toLowerCase();
+  return typed !== '' && (acceptedRomaji(question.cell).includes(typed) || romajiToHiragana(typed) === question.cell.hiragana);
+}
@@ -0,0 +1,81 @@
+import { readJSON, writeJSON } from './storage';
+import { stripFurigana } from './furigana';
+import { unitKey } from './progress';
+
+// Bookmarks and personal notes on vocab, grammar points and dialogue lines.
+// IDs come from the item's own text rather than its position, so entries
+// survive items being added or reordered around them. Each entry keeps a copy
+// of the item, so the notebook page needs no course data.
+
+export type NotebookKind = 'vocab' | 'grammar' | 'dialogue';
+
+/** What the unit page knows about an item. */
+export interface NotebookItem {
+  kind: NotebookKind;
+  chapterId: number;
+  unitId: string;
+  /** Unit page URL with the item's anchor */
+  href: string;
+  /** Headword, grammar pattern or dialogue line; may carry furigana */
+  japanese: string;
+  reading?: string;
+  romaji?: string;
+  chinese: string;
+  audio?: string;
+}
+
+export interface NotebookEntry extends NotebookItem {
+  id: string;
+  bookmarked: boolean;
+  note: string;
+  /** Epoch milliseconds of the last change */
+  updatedAt: number;
+}
+
+interface NotebookStore {
+  version: 1;
+  entries: Record<string, NotebookEntry>;
+}
+
+const STORAGE_KEY = 'jlearn-notebook';
+
+export function notebookId(item: Pick<NotebookItem, 'kind' | 'chapterId' | 'unitId' | 'japanese'>): string {
+  return `${unitKey(item.chapterId, item.unitId)}/${item.kind}/${stripFurigana(item.japanese).trim()}`;
+}
+
+export function loadNotebook(): Record<string, NotebookEntry> {
+  const store = readJSON<NotebookStore | null>(STORAGE_KEY, null);
+  return store?.version === 1 ? store.entries : {};
+}
+
+export function saveNotebook(entries: Record<string, NotebookEntry>): boolean {
+  const store: NotebookStore = { version: 1, entries };
+  return writeJSON(STORAGE_KEY, store);
+}
+
+// An entry is dropped once it is neither bookmarked nor annotated
+function update(item: NotebookItem, change: Partial<Pick<NotebookEntry, 'bookmarked' | 'note'>>, now: number) {
+  const entries = loadNotebook();
+  const id = notebookId(item);
+  const previous: NotebookEntry | undefined = entries[id];
+  const entry: NotebookEntry = {
+    ...item,
+    bookmarked: previous?.bookmarked ?? false,
+    note: previous?.note ?? '',
+    ...change,
+    id,
+    updatedAt: now,
+  };
+  if (entry.bookmarked || entry.note) entries[id] = entry;
+  else delete entries[id];
+  saveNotebook(entries);
+  return entries[id];
+}
+
+export function setBookmark(item: NotebookItem, bookmarked: boolean, now = Date.now()): NotebookEntry | undefined {
+  return update(item, { bookmarked }, now);
+}
+
+export function setNote(item: NotebookItem, note: string, now = Date.now()): NotebookEntry | undefined {
+  return update(item, { note: note.trim() }, now);
+}
@@ -0,0 +1,183 @@
+import { normalizeAnswer } from './kana';
+
+// Readings for generated numbers, prices, clock times, dates and counted
+// things, sound changes included (さんびゃく, ろっぽん, ようか, よにん).
+// Every reader returns the accepted readings, the usual one first.
+
+type Random = () => number;
+
+const DIGITS = ['', 'いち', 'に', 'さん', 'よん', 'ご', 'ろく', 'なな', 'はち', 'きゅう'];
+const HUNDREDS: Record<number, string> = { 1: 'ひゃく', 3: 'さんびゃく', 6: 'ろっぴゃく', 8: 'はっぴゃく' };
+const THOUSANDS: Record<number, string> = { 1: 'せん', 3: 'さんぜん', 8: 'はっせん' };
+
+// Every combination of the alternatives at each position
+function combine(parts: string[][]): string[] {
+  return parts.reduce<string[]>((acc, options) => acc.flatMap((a) => options.map((o) => a + o)), ['']);
+}
+
+// 七 is なな in numbers, though しち is heard too
+const digit = (d: number): string[] => (d === 7 ? ['なな', 'しち'] : [DIGITS[d]]);
+
+function readBelowTenThousand(n: number): string[][] {
+  const [th, h, t, o] = String(n).padStart(4, '0').split('').map(Number);
+  const parts: string[][] = [];
+  if (th) parts.push([THOUSANDS[th] || `${DIGITS[th]}せん`]);
+  if (h) parts.push([HUNDREDS[h] || `${DIGITS[h]}ひゃく`]);
+  if (t) parts.push(t === 1 ? ['じゅう'] : digit(t).map((r) => `${r}じゅう`));
+  if (o) parts.push(digit(o));
+  return parts;
+}
+
+/** 0 to 99,999,999. */
+export function readNumber(n: number): string[] {
+  if (n === 0) return ['ゼロ', 'れい'];
+  const man = Math.floor(n / 10000);
+  const rest = n % 10000;
+  const parts = man ? [...readBelowTenThousand(man), ['まん']] : [];
+  return combine([...parts, ...readBelowTenThousand(rest)]);
+}
+
+/** ¥480 → よんひゃくはちじゅうえん; a final 4 becomes よ: よえん, じゅうよえん. */
+export function readPrice(yen: number): string[] {
+  if (yen % 10 === 4) return (yen > 4 ? readNumber(yen - 4) : ['']).map((r) => `${r}よえん`);
+  return readNumber(yen).map((r) => `${r}えん`);
+}
+
+const HOURS = ['', 'いちじ', 'にじ', 'さんじ', 'よじ', 'ごじ', 'ろくじ', 'しちじ', 'はちじ', 'くじ', 'じゅうじ', 'じゅういちじ', 'じゅうにじ'];
+const MINUTE_ONES: string[][] = [
+  [],
+  ['いっぷん'],
+  ['にふん'],
+  ['さんぷん'],
+  ['よんぷん'],
+  ['ごふん'],
+  ['ろっぷん'],
+  ['ななふん', 'しちふん'],
+  ['はっぷん', 'はちふん'],
+  ['きゅうふん'],
+];
+
+function readMinutes(m: number): string[] {
+  const tens = Math.floor(m / 10);
+  const ones = m % 10;
+  const prefix = tens === 0 ? [''] : tens === 1 ? ['じゅう'] : digit(tens).map((r) => `${r}じゅう`);
+  // 10, 20, 30…: the じゅう itself takes the っぷん
+  if (ones === 0) return prefix.flatMap((p) => [`${p.slice(0, -1)}っぷん`, `${p.slice(0, -3)}じっぷん`]);
+  return combine([prefix, MINUTE_ONES[ones]]);
+}
+
+/** 12-hour clock: 7:15 → しちじじゅうごふん; :30 also accepts はん. */
+export function readTime(hour: number, minute: number): string[] {
+  const h = HOURS[hour];
+  if (minute === 0) return [h, `${h}ちょうど`];
+  const readings = readMinutes(minute).map((m) => h + m);
+  return minute === 30 ? [...readings, `${h}はん`] : readings;
+}
+
+const MONTHS = ['', 'いちがつ', 'にがつ', 'さんがつ', 'しがつ', 'ごがつ', 'ろくがつ', 'しちがつ', 'はちがつ', 'くがつ', 'じゅうがつ', 'じゅういちがつ', 'じゅうにがつ'];
+const DAYS = [
+  '', 'ついたち', 'ふつか', 'みっか', 'よっか', 'いつか', 'むいか', 'なのか', 'ようか', 'ここのか', 'とおか',
+  'じゅういちにち', 'じゅうににち', 'じゅうさんにち', 'じゅうよっか', 'じゅうごにち', 'じゅうろくにち', 'じゅうしちにち', 'じゅうはちにち', 'じゅうくにち', 'はつか',
+  'にじゅういちにち', 'にじゅうににち', 'にじゅうさんにち', 'にじゅうよっか', 'にじゅうごにち', 'にじゅうろくにち', 'にじゅうしちにち', 'にじゅうはちにち', 'にじゅうくにち', 'さんじゅうにち',
+  'さんじゅういちにち',
+];
+
+/** 4月8日 → しがつようか. */
+export function readDate(month: number, day: number): string[] {
+  return [`${MONTHS[month]}${DAYS[day]}`];
+}
+
+export interface Counter {
+  symbol: string;
+  /** What it counts, in Chinese */
+  label: string;
+  /** Readings for 1 to 10; "/" separates accepted alternatives */
+  readings: string[];
+}
+
+// The counters ch1/unit3 teaches, 1 to 10
+export const COUNTERS: Counter[] = [
+  { symbol: '人', label: '人', readings: ['ひとり', 'ふたり', 'さんにん', 'よにん', 'ごにん', 'ろくにん', 'ななにん/しちにん', 'はちにん', 'きゅうにん', 'じゅうにん'] },
+  { symbol: 'つ', label: '東西（通用）', readings: ['ひとつ', 'ふたつ', 'みっつ', 'よっつ', 'いつつ', 'むっつ', 'ななつ', 'やっつ', 'ここのつ', 'とお'] },
+  { symbol: '枚', label: '薄平物品', readings: ['いちまい', 'にまい', 'さんまい', 'よんまい', 'ごまい', 'ろくまい', 'ななまい', 'はちまい', 'きゅうまい', 'じゅうまい'] },
+  { symbol: '本', label: '細長物品', readings: ['いっぽん', 'にほん', 'さんぼん', 'よんほん', 'ごほん', 'ろっぽん', 'ななほん', 'はっぽん/はちほん', 'きゅうほん', 'じゅっぽん/じっぽん'] },
+  { symbol: '杯', label: '杯裝飲料', readings: ['いっぱい', 'にはい', 'さんばい', 'よんはい', 'ごはい', 'ろっぱい', 'ななはい', 'はっぱい/はちはい', 'きゅうはい', 'じゅっぱい/じっぱい'] },
+  { symbol: '個', label: '小物品', readings: ['いっこ', 'にこ', 'さんこ', 'よんこ', 'ごこ', 'ろっこ', 'ななこ', 'はっこ/はちこ', 'きゅうこ', 'じゅっこ/じっこ'] },
+  { symbol: '名', label: '人（禮貌）', readings: ['いちめい', 'にめい', 'さんめい', 'よんめい', 'ごめい', 'ろくめい', 'ななめい', 'はちめい', 'きゅうめい', 'じゅうめい'] },
+  { symbol: '足', label: '鞋襪', readings: ['いっそく', 'にそく', 'さんぞく', 'よんそく', 'ごそく', 'ろくそく', 'ななそく', 'はっそく', 'きゅうそく', 'じゅっそく/じっそく'] },
+  { symbol: '冊', label: '書籍', readings: ['いっさつ', 'にさつ', 'さんさつ', 'よんさつ', 'ごさつ', 'ろくさつ', 'ななさつ', 'はっさつ', 'きゅうさつ', 'じゅっさつ/じっさつ'] },
+  { symbol: '台', label: '機器、車輛', readings: ['いちだい', 'にだい', 'さんだい', 'よんだい', 'ごだい', 'ろくだい', 'ななだい', 'はちだい', 'きゅうだい', 'じゅうだい'] },
+  { symbol: '匹', label: '小動物', readings: ['いっぴき', 'にひき', 'さんびき', 'よんひき', 'ごひき', 'ろっぴき', 'ななひき', 'はっぴき/はちひき', 'きゅうひき', 'じゅっぴき/じっぴき'] },
+];
+
+export function readCount(count: number, counter: Counter): string[] {
+  return counter.readings[count - 1].split('/');
+}
+
+export type NumberDrillKind = 'price' | 'time' | 'date' | 'counter';
+
+export interface NumberQuestion {
+  kind: NumberDrillKind;
+  /** As written, e.g. ¥3,480, 7:15, 4月8日, 3本 */
+  written: string;
+  /** Accepted readings, the usual one first */
+  readings: string[];
+  /** The numbers in `written`, in order, for checking a typed value */
+  values: number[];
+  /** What a counter counts */
+  hint?: string;
+}
+
+const randomInt = (min: number, max: number, random: Random) => min + Math.floor(random() * (max - min + 1));
+
+// Mostly shop prices ending in 0, now and then coins or a hotel bill
+function randomPrice(random: Random): number {
+  const band = random();
+  if (band < 0.15) return randomInt(1, 99, random);
+  if (band < 0.5) return randomInt(10, 99, random) * 10;
+  if (band < 0.9) return randomInt(100, 999, random) * 10;
+  return randomInt(100, 999, random) * 100;
+}
+
+const DAYS_IN_MONTH = [0, 31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export function generateNumberQuestion(kind: NumberDrillKind, random: Random = Math.random): NumberQuestion {
+  switch (kind) {
+    case 'price': {
+      const yen = randomPrice(random);
+      return { kind, written: `¥${yen.toLocaleString('en-US')}`, readings: readPrice(yen), values: [yen] };
+    }
+    case 'time': {
+      const hour = randomInt(1, 12, random);
+      // Timetables use any minute; everyday times are mostly on the 5s
+      const minute = random() < 0.6 ? randomInt(0, 11, random) * 5 : randomInt(0, 59, random);
+      return { kind, written: `${hour}:${String(minute).padStart(2, '0')}`, readings: readTime(hour, minute), values: [hour, minute] };
+    }
+    case 'date': {
+      const month = randomInt(1, 12, random);
+      // Irregular day readings are the point, so they come up about half the time
+      const day = random() < 0.5 ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 14, 20, 24][randomInt(0, 12, random)] : randomInt(1, DAYS_IN_MONTH[month], random);
+      return { kind, written: `${month}月${day}日`, readings: readDate(month, day), values: [month, day] };
+    }
+    case 'counter': {
+      const counter = COUNTERS[randomInt(0, COUNTERS.length - 1, random)];
+      const count = randomInt(1, 10, random);
+      return { kind, written: `${count}${counter.symbol}`, readings: readCount(count, counter), values: [count], hint: counter.label };
+    }
+  }
+}
+
+/** Kana or romaji; long vowels and spelling variants are forgiven, sound changes are not. */
+export function checkNumberReading(question: NumberQuestion, input: string): boolean {
+  const answer = normalizeAnswer(input);
+  return answer !== '' && question.readings.some((r) => normalizeAnswer(r) === answer);
+}
+
+/** Any notation with the right numbers: 3480, ¥3,480, 3480円; 7:15, 7時15分; 4/8, 4月8日. */
+export function checkNumberValue(question: NumberQuestion, input: string): boolean {
+  const values = (input.normalize('NFKC').replace(/(\d),(?=\d{3})/g, '$1').match(/\d+/g) || []).map(Number);
+  const expected = question.values;
+  // 7:00 can be typed as just 7
+  if (question.kind === 'time' && expected[1] === 0 && values.length === 1) return values[0] === expected[0];
+  return values.length === expected.length && values.every((v, i) => v === expected[i]);
+}
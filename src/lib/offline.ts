@@ -0,0 +1,54 @@
+// Offline support. The service worker (src/pwa/sw.js, emitted as sw.js by the
+// service-worker integration) precaches every page and the search index on
+// install; audio is downloaded per chapter on request. Progress lives in
+// localStorage, which works offline as it is and is never touched here.
+
+/** Audio file names are content hashes, so this cache outlives deploys. */
+export const AUDIO_CACHE = 'jlearn-audio';
+/** Followed by the build's content hash; older versions are dropped on activate. */
+export const PRECACHE_PREFIX = 'jlearn-precache-';
+
+export function registerServiceWorker(baseUrl: string) {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker
+    .register(`${baseUrl}sw.js`, { scope: baseUrl })
+    .catch((err) => console.warn('[jlearn] Could not register the service worker', err));
+}
+
+/** The active worker, or null where offline support isn't available (dev server, old browsers). */
+export async function activeWorker(): Promise<ServiceWorker | null> {
+  if (!('serviceWorker' in navigator) || !('caches' in window)) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return null;
+  return (await navigator.serviceWorker.ready).active;
+}
+
+/** How many of `urls` are already in a cache. */
+export async function countCached(urls: string[]): Promise<number> {
+  const hits = await Promise.all(urls.map((url) => caches.match(url)));
+  return hits.filter(Boolean).length;
+}
+
+/**
+ * Has the worker fetch and cache `urls`, reporting progress as it goes.
+ * Resolves with the number of files that could not be downloaded.
+ */
+export function downloadForOffline(
+  worker: ServiceWorker,
+  urls: string[],
+  onProgress: (done: number, total: number) => void
+): Promise<number> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (e: MessageEvent<{ type: 'progress' | 'done'; done: number; total: number; failed: number }>) => {
+      if (e.data.type === 'progress') onProgress(e.data.done, e.data.total);
+      else resolve(e.data.failed);
+    };
+    worker.postMessage({ type: 'cache-urls', urls }, [channel.port2]);
+  });
+}
+
+export async function removeOfflineAudio(urls: string[]): Promise<void> {
+  const cache = await caches.open(AUDIO_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(url)));
+}
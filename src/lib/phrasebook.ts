@@ -0,0 +1,28 @@
+import { readJSON, writeJSON } from './storage';
+
+// Starred phrasebook entries, by phrase ID (the sentence without readings).
+
+interface FavoritesStore {
+  version: 1;
+  ids: string[];
+}
+
+const STORAGE_KEY = 'jlearn-phrasebook';
+
+export function loadFavorites(): string[] {
+  const store = readJSON<FavoritesStore | null>(STORAGE_KEY, null);
+  return store?.version === 1 && Array.isArray(store.ids) ? store.ids : [];
+}
+
+export function saveFavorites(ids: string[]): boolean {
+  const store: FavoritesStore = { version: 1, ids };
+  return writeJSON(STORAGE_KEY, store);
+}
+
+/** Stars or unstars `id`; returns the updated list, newest first. */
+export function toggleFavorite(id: string): string[] {
+  const current = loadFavorites();
+  const ids = current.includes(id) ? current.filter((f) => f !== id) : [id, ...current];
+  saveFavorites(ids);
+  return ids;
+}
@@ -0,0 +1,115 @@
+// Waveform and pitch contour of a short spoken clip, for laying a learner's
+// take over the reference. Pitch is autocorrelation on a downsampled signal:
+// rough, but enough to see whether a phrase rises and falls in the right places.
+
+export interface VoiceProfile {
+  /** Peak amplitude per bucket, 0 to 1 */
+  waveform: number[];
+  /** Semitones from the clip's median pitch per bucket; null where unvoiced */
+  pitch: (number | null)[];
+  /** Seconds of speech after trimming silence */
+  duration: number;
+}
+
+const ANALYSIS_RATE = 11025;
+const MIN_HZ = 75;
+const MAX_HZ = 500;
+// Below this share of the clip's peak, a stretch counts as silence
+const SILENCE = 0.08;
+// Normalised autocorrelation needed to call a frame voiced
+const VOICED = 0.6;
+
+/** Decodes a recording or clip to mono samples. */
+export async function decodeClip(data: ArrayBuffer): Promise<{ samples: Float32Array; sampleRate: number }> {
+  // An offline context decodes without asking for the audio output
+  const buffer = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    buffer.getChannelData(c).forEach((v, i) => (samples[i] += v / buffer.numberOfChannels));
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+}
+
+function downsample(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / ANALYSIS_RATE));
+  const result = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < result.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    result[i] = sum / factor;
+  }
+  return { samples: result, sampleRate: sampleRate / factor };
+}
+
+// Leading and trailing silence removed, so a late start doesn't skew the overlay
+function trimSilence(samples: Float32Array): Float32Array {
+  let peak = 0;
+  for (const v of samples) peak = Math.max(peak, Math.abs(v));
+  const threshold = peak * SILENCE;
+  let start = 0;
+  let end = samples.length;
+  while (start < end && Math.abs(samples[start]) < threshold) start++;
+  while (end > start && Math.abs(samples[end - 1]) < threshold) end--;
+  return samples.subarray(start, end);
+}
+
+function frameHz(samples: Float32Array, at: number, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_HZ);
+  const maxLag = Math.ceil(sampleRate / MIN_HZ);
+  const size = maxLag * 2;
+  const start = Math.max(0, Math.min(at - maxLag, samples.length - size - maxLag));
+  if (start + size + maxLag > samples.length) return null;
+  const r: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let product = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = start; i < start + size; i++) {
+      product += samples[i] * samples[i + lag];
+      energyA += samples[i] * samples[i];
+      energyB += samples[i + lag] * samples[i + lag];
+    }
+    r.push(product / (Math.sqrt(energyA * energyB) || 1));
+  }
+  const best = Math.max(...r);
+  if (best < VOICED) return null;
+  // Multiples of the period correlate almost as well; the first peak near the best is the pitch
+  const i = r.findIndex((v, k) => v >= best * 0.9 && (k === r.length - 1 || v >= r[k + 1]));
+  return sampleRate / (minLag + i);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * `buckets` evenly spaced points over the clip's speech. Pitch is relative to
+ * the speaker's own median, so a low voice and a high one can be compared.
+ */
+export function voiceProfile(raw: Float32Array, rawRate: number, buckets = 80): VoiceProfile {
+  const { samples: all, sampleRate } = downsample(raw, rawRate);
+  const samples = trimSilence(all);
+  const step = samples.length / buckets;
+  let peak = 0;
+  for (const v of samples) peak = Math.max(peak, Math.abs(v));
+
+  const waveform: number[] = [];
+  const hz: (number | null)[] = [];
+  for (let b = 0; b < buckets; b++) {
+    const from = Math.floor(b * step);
+    const to = Math.max(from + 1, Math.floor((b + 1) * step));
+    let max = 0;
+    for (let i = from; i < to && i < samples.length; i++) max = Math.max(max, Math.abs(samples[i]));
+    waveform.push(peak ? max / peak : 0);
+    hz.push(peak && max / peak > SILENCE * 2 ? frameHz(samples, Math.floor((from + to) / 2), sampleRate) : null);
+  }
+
+  const voiced = hz.filter((f): f is number => f !== null);
+  const centre = voiced.length ? median(voiced) : 1;
+  return {
+    waveform,
+    pitch: hz.map((f) => (f === null ? null : 12 * Math.log2(f / centre))),
+    duration: samples.length / sampleRate,
+  };
+}
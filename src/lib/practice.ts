@@ -0,0 +1,142 @@
+import { stripFurigana } from './furigana';
+import type { ChoiceQuestion, GrammarPoint, UnitData, VocabItem } from '../data/loadUnit';
+
+// Generated "extra practice" questions: vocab meaning / reading / kanji and
+// grammar cloze, with distractors drawn from the rest of the chapter.
+
+export interface PracticeSource {
+  vocab: VocabItem[];
+  grammar: GrammarPoint[];
+}
+
+type Random = () => number;
+
+const KANJI = /[一-鿿々]/;
+const BLANK = '＿＿';
+
+/**
+ * Vocab (including flashcards) and grammar points of the given units,
+ * deduplicated and trimmed to the fields questions use, since the result is
+ * shipped to the browser.
+ */
+export function collectPracticeSource(units: UnitData[]): PracticeSource {
+  const vocab = new Map<string, VocabItem>();
+  const grammar: GrammarPoint[] = [];
+  for (const unit of units) {
+    for (const section of unit.sections) {
+      const words = section.type === 'vocab' ? section.items : section.type === 'flashcards' ? section.cards : [];
+      for (const { japanese, reading, romaji, chinese } of words) {
+        if (!vocab.has(japanese)) vocab.set(japanese, { japanese, reading, romaji, chinese });
+      }
+      if (section.type === 'grammar') {
+        for (const { pattern, meaning, structure, examples } of section.points) {
+          grammar.push({ pattern, meaning, structure, examples });
+        }
+      }
+    }
+  }
+  return { vocab: [...vocab.values()], grammar };
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Three distinct wrong answers, or null when the chapter can't supply them
+function distractors(answer: string, pool: string[], random: Random): string[] | null {
+  const candidates = shuffle([...new Set(pool)].filter((v) => v && v !== answer), random).slice(0, 3);
+  return candidates.length === 3 ? candidates : null;
+}
+
+function choice(question: string, answer: string, wrong: string[], explanation: string, random: Random): ChoiceQuestion {
+  const correct = Math.floor(random() * 4);
+  const options = [...wrong];
+  options.splice(correct, 0, answer);
+  return { question, options, correct, explanation };
+}
+
+const describe = (item: VocabItem) =>
+  `「${item.japanese}」${item.reading !== item.japanese ? `（${item.reading}）` : ''}是「${item.chinese}」的意思。`;
+
+function vocabQuestions(item: VocabItem, chapter: PracticeSource, random: Random): ChoiceQuestion[] {
+  const questions: ChoiceQuestion[] = [];
+
+  const meanings = distractors(item.chinese, chapter.vocab.map((v) => v.chinese), random);
+  if (meanings) {
+    questions.push(choice(`「${item.japanese}」是什麼意思？`, item.chinese, meanings, describe(item), random));
+  }
+
+  if (KANJI.test(item.japanese) && item.reading !== item.japanese) {
+    const written = chapter.vocab.filter((v) => KANJI.test(v.japanese));
+    const readings = distractors(item.reading, written.map((v) => v.reading), random);
+    if (readings) {
+      questions.push(choice(`「${item.japanese}」怎麼唸？`, item.reading, readings, describe(item), random));
+    }
+    const spellings = distractors(item.japanese, written.map((v) => v.japanese), random);
+    if (spellings) {
+      questions.push(
+        choice(`「${item.reading}」（${item.chinese}）的漢字怎麼寫？`, item.japanese, spellings, describe(item), random)
+      );
+    }
+  }
+
+  return questions;
+}
+
+// Literal pieces of a pattern such as 〜てもいいですか？ → ["てもいいですか"] that
+// actually occur in its examples; single kana are too ambiguous to blank out.
+function patternFragments(point: GrammarPoint): string[] {
+  const examples = point.examples.map((e) => stripFurigana(e.japanese));
+  return stripFurigana(point.pattern)
+    .split(/[〜～~？?\s/／+＋]+/)
+    .filter((f) => f.length >= 2 && examples.some((e) => e.includes(f)));
+}
+
+function grammarQuestions(point: GrammarPoint, chapter: PracticeSource, random: Random): ChoiceQuestion[] {
+  const fragmentPool = chapter.grammar.flatMap(patternFragments);
+  const questions: ChoiceQuestion[] = [];
+  for (const example of point.examples) {
+    const sentence = stripFurigana(example.japanese);
+    const fragment = patternFragments(point)
+      .filter((f) => sentence.includes(f))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!fragment) continue;
+    const wrong = distractors(fragment, fragmentPool.filter((f) => !sentence.includes(f)), random);
+    if (!wrong) continue;
+    questions.push(
+      choice(
+        `選出填入空格的正確說法：${sentence.replace(fragment, BLANK)}（${example.chinese}）`,
+        fragment,
+        wrong,
+        `句型「${point.pattern}」：${point.meaning}。完整句子：${sentence}`,
+        random
+      )
+    );
+  }
+  return questions;
+}
+
+/**
+ * A fresh set of up to `count` questions about `source`; every call reshuffles,
+ * so the same unit can be practised endlessly.
+ */
+export function generatePractice(
+  source: PracticeSource,
+  chapter: PracticeSource,
+  count = 10,
+  random: Random = Math.random
+): ChoiceQuestion[] {
+  // One question per word or example sentence, so a set never asks the same word twice
+  const groups = [
+    ...source.vocab.map((item) => vocabQuestions(item, chapter, random)),
+    ...source.grammar.flatMap((point) => grammarQuestions(point, chapter, random).map((q) => [q])),
+  ].filter((group) => group.length > 0);
+  return shuffle(groups, random)
+    .slice(0, count)
+    .map((group) => group[Math.floor(random() * group.length)]);
+}
@@ -0,0 +1,206 @@
+import { isNumber, isObject, readJSON, writeJSON } from './storage';
+
+// Learner progress, keyed by `ch{n}/unit{m}`.
+//
+// Schema history:
+//   1 (unversioned) — `{ [unitId]: { completed, quizScore } }` written by the
+//     original Quiz component, latest score only. That Quiz added the last
+//     answer's point a second time, so a score may be one too high.
+//   2 — `{ version: 2, units: { [unitKey]: UnitProgress } }`.
+
+export interface QuizAttempt {
+  score: number;
+  /** Absent for attempts migrated from schema 1, which never stored it. */
+  total?: number;
+  /** Epoch milliseconds; 0 when migrated from schema 1. */
+  at: number;
+}
+
+export interface UnitProgress {
+  completed: boolean;
+  attempts: QuizAttempt[];
+}
+
+export interface ProgressStore {
+  version: 2;
+  units: Record<string, UnitProgress>;
+  /** Study actions per local day (`YYYY-MM-DD`), for streaks. */
+  activity?: Record<string, number>;
+  /** The unit page opened most recently, for "continue where you left off". */
+  lastVisit?: { unit: string; at: number };
+}
+
+type LegacyStore = Record<string, { completed?: boolean; quizScore?: number }>;
+
+export const PROGRESS_VERSION = 2;
+const STORAGE_KEY = 'jlearn-progress';
+
+type Listener = (store: ProgressStore) => void;
+const listeners = new Set<Listener>();
+
+export function unitKey(chapterId: number, unitId: string): string {
+  return `ch${chapterId}/${unitId}`;
+}
+
+function emptyStore(): ProgressStore {
+  return { version: PROGRESS_VERSION, units: {} };
+}
+
+function isAttempt(v: unknown): v is QuizAttempt {
+  return isObject(v) && isNumber(v.score) && isNumber(v.at) && (v.total === undefined || isNumber(v.total));
+}
+
+/** Why `data` isn't a well-formed current-schema store, as a learner-facing message; null if it is. */
+export function progressError(data: Record<string, unknown>): string | null {
+  if (data.version !== PROGRESS_VERSION || !isObject(data.units)) return '學習紀錄格式錯誤';
+  for (const [key, unit] of Object.entries(data.units)) {
+    if (!/^ch\d+\/unit\d+$/.test(key) || !isObject(unit) || !Array.isArray(unit.attempts) || !unit.attempts.every(isAttempt)) {
+      return `單元「${key}」的紀錄格式錯誤`;
+    }
+  }
+  if (data.activity !== undefined && (!isObject(data.activity) || !Object.values(data.activity).every(isNumber))) {
+    return '學習天數紀錄格式錯誤';
+  }
+  if (data.lastVisit !== undefined && (!isObject(data.lastVisit) || typeof data.lastVisit.unit !== 'string' || !isNumber(data.lastVisit.at))) {
+    return '最近學習單元紀錄格式錯誤';
+  }
+  return null;
+}
+
+export function migrate(raw: unknown): ProgressStore {
+  if (!isObject(raw)) return emptyStore();
+  if (raw.version === PROGRESS_VERSION) {
+    const error = progressError(raw);
+    if (!error) return raw as unknown as ProgressStore;
+    console.warn(`[jlearn] Malformed progress store (${error}), starting fresh`);
+    return emptyStore();
+  }
+  if (raw.version !== undefined) {
+    console.warn(`[jlearn] Unknown progress schema version ${String(raw.version)}, starting fresh`);
+    return emptyStore();
+  }
+
+  const store = emptyStore();
+  for (const [key, entry] of Object.entries(raw as LegacyStore)) {
+    // Legacy keys look like `ch2-unit3`; bare `unit3` keys can't be attributed to a chapter
+    const match = key.match(/^ch(\d+)-(unit\d+)$/);
+    if (!match) {
+      console.warn(`[jlearn] Dropping legacy progress entry "${key}" without a chapter`);
+      continue;
+    }
+    store.units[unitKey(Number(match[1]), match[2])] = {
+      completed: Boolean(entry?.completed),
+      // Only scores whose last answer was right were inflated, and that isn't recorded: keep the lower bound
+      attempts: isNumber(entry?.quizScore) ? [{ score: Math.max(0, entry.quizScore - 1), at: 0 }] : [],
+    };
+  }
+  return store;
+}
+
+export function loadProgress(): ProgressStore {
+  const raw = readJSON<unknown>(STORAGE_KEY, null);
+  const store = migrate(raw);
+  // Persist the upgrade once so the legacy blob isn't re-migrated on every read
+  if (isObject(raw) && !('version' in raw)) writeJSON(STORAGE_KEY, store);
+  return store;
+}
+
+export function saveProgress(store: ProgressStore): boolean {
+  const ok = writeJSON(STORAGE_KEY, store);
+  if (ok) listeners.forEach((listener) => listener(store));
+  return ok;
+}
+
+export function getUnitProgress(key: string): UnitProgress | undefined {
+  return loadProgress().units[key];
+}
+
+export function dayKey(time: number): string {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function bumpActivity(store: ProgressStore, now: number) {
+  const day = dayKey(now);
+  store.activity = { ...store.activity, [day]: (store.activity?.[day] || 0) + 1 };
+}
+
+export function recordQuizAttempt(key: string, score: number, total: number, now = Date.now()): boolean {
+  const store = loadProgress();
+  const unit = store.units[key] || { completed: false, attempts: [] };
+  store.units[key] = {
+    completed: true,
+    attempts: [...unit.attempts, { score, total, at: now }],
+  };
+  bumpActivity(store, now);
+  return saveProgress(store);
+}
+
+export function recordActivity(now = Date.now()): boolean {
+  const store = loadProgress();
+  bumpActivity(store, now);
+  return saveProgress(store);
+}
+
+export function recordVisit(key: string, now = Date.now()): boolean {
+  const store = loadProgress();
+  store.lastVisit = { unit: key, at: now };
+  return saveProgress(store);
+}
+
+export interface ResumePoint {
+  key: string;
+  /** `continue`: the last unit opened, still unfinished; `next`: the first unfinished unit after it; `start`: nothing studied yet. */
+  reason: 'continue' | 'next' | 'start';
+}
+
+/** Where to pick up along `path` (unit keys in course order), or null once every unit is completed. */
+export function resumePoint(store: ProgressStore, path: string[]): ResumePoint | null {
+  const done = (key: string) => Boolean(store.units[key]?.completed);
+  const last = store.lastVisit ? path.indexOf(store.lastVisit.unit) : -1;
+  if (last === -1 && !path.some(done)) return path.length > 0 ? { key: path[0], reason: 'start' } : null;
+  if (last !== -1 && !done(path[last])) return { key: path[last], reason: 'continue' };
+  // Look past the last unit first, then wrap round to anything skipped earlier
+  const from = last + 1;
+  const key = [...path.slice(from), ...path.slice(0, from)].find((k) => !done(k));
+  return key ? { key, reason: 'next' } : null;
+}
+
+export function latestAttempt(unit: UnitProgress | undefined): QuizAttempt | undefined {
+  if (!unit || unit.attempts.length === 0) return undefined;
+  return unit.attempts.reduce((a, b) => (b.at >= a.at ? b : a));
+}
+
+/** Best attempt by score ratio; `fallbackTotal` covers migrated attempts without a total. */
+export function bestAttempt(unit: UnitProgress | undefined, fallbackTotal: number): QuizAttempt | undefined {
+  if (!unit || unit.attempts.length === 0) return undefined;
+  const ratio = (a: QuizAttempt) => a.score / (a.total || fallbackTotal || 1);
+  return unit.attempts.reduce((a, b) => (ratio(b) > ratio(a) ? b : a));
+}
+
+/** Consecutive days with activity, ending today (or yesterday if today is still empty). */
+export function currentStreak(store: ProgressStore, now = Date.now()): number {
+  const activity = store.activity || {};
+  const day = new Date(now);
+  if (!activity[dayKey(day.getTime())]) day.setDate(day.getDate() - 1);
+  let streak = 0;
+  while (activity[dayKey(day.getTime())]) {
+    streak++;
+    day.setDate(day.getDate() - 1);
+  }
+  return streak;
+}
+
+/** Calls `listener` whenever progress changes, in this tab or another. */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener(loadProgress());
+  };
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
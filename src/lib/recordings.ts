@@ -0,0 +1,83 @@
+import { stripFurigana } from './furigana';
+import { unitKey } from './progress';
+
+// The learner's shadowing takes, kept in IndexedDB because audio is too big
+// for localStorage. Nothing leaves the browser, and backups skip them.
+
+const DB_NAME = 'jlearn-recordings';
+const STORE = 'takes';
+/** Older takes of a line are dropped past this */
+export const MAX_TAKES = 3;
+
+export interface Take {
+  id: number;
+  /** shadowingId() of the line */
+  line: string;
+  blob: Blob;
+  /** Seconds */
+  duration: number;
+  /** Epoch milliseconds */
+  createdAt: number;
+}
+
+/** What a unit page passes the shadowing panel about a line. */
+export interface ShadowingLine {
+  /** shadowingId() */
+  id: string;
+  /** May carry furigana */
+  japanese: string;
+  chinese: string;
+  /** Reference clip, path under public/ */
+  audio?: string;
+}
+
+/** A dialogue line or vocab example, by its text so takes survive reordering. */
+export function shadowingId(chapterId: number, unitId: string, japanese: string): string {
+  return `${unitKey(chapterId, unitId)}:${stripFurigana(japanese).trim()}`;
+}
+
+let db: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('line', 'line');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      db = null;
+      reject(request.error);
+    };
+  });
+  return db;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Takes of a line, newest first. */
+export async function listTakes(line: string): Promise<Take[]> {
+  const store = (await open()).transaction(STORE).objectStore(STORE);
+  const takes = await settle(store.index('line').getAll(line) as IDBRequest<Take[]>);
+  return takes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Stores a take and prunes the line down to MAX_TAKES; resolves with its takes, newest first. */
+export async function saveTake(line: string, blob: Blob, duration: number, now = Date.now()): Promise<Take[]> {
+  const store = (await open()).transaction(STORE, 'readwrite').objectStore(STORE);
+  await settle(store.add({ line, blob, duration, createdAt: now }));
+  const takes = await listTakes(line);
+  await Promise.all(takes.slice(MAX_TAKES).map((take) => deleteTake(take.id)));
+  return takes.slice(0, MAX_TAKES);
+}
+
+export async function deleteTake(id: number): Promise<void> {
+  const store = (await open()).transaction(STORE, 'readwrite').objectStore(STORE);
+  await settle(store.delete(id));
+}
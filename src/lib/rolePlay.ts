@@ -0,0 +1,68 @@
+import { normalizeAnswer } from './kana';
+import { stripFurigana, toKana } from './furigana';
+
+// Role-play over a unit dialogue: the learner takes one speaker, the other
+// side's lines are revealed in turn, and each of the learner's lines is
+// answered by picking it from shuffled options or typing it.
+
+type Random = () => number;
+
+export interface RolePlayLine {
+  speaker: string;
+  japanese: string;
+  chinese: string;
+  audio?: string;
+}
+
+/** Speakers in order of first appearance. */
+export function dialogueSpeakers(lines: RolePlayLine[]): string[] {
+  return [...new Set(lines.map((line) => line.speaker))];
+}
+
+function shuffle<T>(items: T[], random: Random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Line `index` among up to three other lines of the same dialogue, shuffled.
+ * The speaker's own lines come first as distractors, since they sound most alike.
+ */
+export function lineOptions(lines: RolePlayLine[], index: number, random: Random = Math.random): string[] {
+  const answer = lines[index].japanese;
+  const own = lines.filter((l, i) => i !== index && l.speaker === lines[index].speaker).map((l) => l.japanese);
+  const others = lines.filter((l) => l.speaker !== lines[index].speaker).map((l) => l.japanese);
+  const pool = [...new Set([...shuffle(own, random), ...shuffle(others, random)])].filter((j) => j !== answer);
+  return shuffle([answer, ...pool.slice(0, 3)], random);
+}
+
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next.push(Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)));
+    }
+    row = next;
+  }
+  return row[b.length];
+}
+
+export type LineMatch = 'exact' | 'close' | 'wrong';
+
+// Share of the line that may differ and still count, e.g. a particle or a typo
+const CLOSE_ENOUGH = 0.2;
+
+/** A typed line against the expected one, as written or in kana; punctuation is ignored. */
+export function matchTypedLine(expected: string, input: string): LineMatch {
+  const typed = normalizeAnswer(input);
+  if (!typed) return 'wrong';
+  const targets = [stripFurigana(expected), toKana(expected)].map(normalizeAnswer);
+  if (targets.includes(typed)) return 'exact';
+  const best = Math.min(...targets.map((t) => editDistance(t, typed) / Math.max(t.length, 1)));
+  return best <= CLOSE_ENOUGH ? 'close' : 'wrong';
+}
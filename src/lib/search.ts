@@ -0,0 +1,163 @@
+import { hiraganaToKatakana, katakanaToHiragana, normalizeAnswer, romajiToHiragana } from './kana';
+
+// Site search: kana, katakana, romaji (with or without macrons) all reduce to
+// the same key via normalizeAnswer, so `taberu`, `タベル` and `たべる` find 食べる.
+
+export type SearchField = 'japanese' | 'reading' | 'romaji' | 'chinese' | 'detail' | 'example';
+
+export interface SearchDocument {
+  fields: Partial<Record<SearchField, string>>;
+}
+
+export interface SearchHit<T> {
+  entry: T;
+  score: number;
+  /** Original field values that matched, for highlighting. */
+  matched: string[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  japanese: 10,
+  reading: 9,
+  romaji: 8,
+  chinese: 7,
+  detail: 3,
+  example: 2,
+};
+
+// Long fields (example sentences, notes) are only searched by substring
+const FUZZY_FIELDS: SearchField[] = ['japanese', 'reading', 'romaji', 'chinese'];
+
+interface PreparedDocument<T> {
+  entry: T;
+  keys: [SearchField, string, string][];
+}
+
+export interface PreparedIndex<T> {
+  docs: PreparedDocument<T>[];
+}
+
+/** Normalises every field once, so each keystroke only compares strings. */
+export function prepareIndex<T extends SearchDocument>(entries: T[]): PreparedIndex<T> {
+  return {
+    docs: entries.map((entry) => ({
+      entry,
+      keys: (Object.entries(entry.fields) as [SearchField, string][])
+        .filter(([, value]) => value)
+        .map(([field, value]) => [field, value, normalizeAnswer(value)]),
+    })),
+  };
+}
+
+/**
+ * `食べる（たべる）— 吃` for words and patterns, otherwise the sentence or text
+ * itself: the preview used when an entry doesn't carry its own.
+ */
+export function fieldPreview(fields: SearchDocument['fields']): string {
+  const { japanese, reading, chinese } = fields;
+  if (!japanese && !chinese) return fields.example || fields.detail || '';
+  return `${japanese || ''}${reading && reading !== japanese ? `（${reading}）` : ''} — ${chinese || ''}`;
+}
+
+// Edit distance between `query` and its best-matching substring of `text`
+function substringDistance(query: string, text: string): number {
+  let prev = new Array(text.length + 1).fill(0);
+  for (let i = 1; i <= query.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= text.length; j++) {
+      const cost = query[i - 1] === text[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = row;
+  }
+  return Math.min(...prev);
+}
+
+const allowedTypos = (length: number) => (length >= 7 ? 2 : length >= 4 ? 1 : 0);
+
+function scoreField(query: string, field: SearchField, key: string): number {
+  const weight = FIELD_WEIGHTS[field];
+  if (key === query) return weight * 4;
+  if (key.startsWith(query)) return weight * 3;
+  if (key.includes(query)) return weight * 2;
+  const typos = allowedTypos(query.length);
+  if (typos > 0 && FUZZY_FIELDS.includes(field)) {
+    const distance = substringDistance(query, key);
+    if (distance <= typos) return weight * (1 - distance / (typos + 1));
+  }
+  return 0;
+}
+
+/** Hits ranked by their best field: exact headword matches first, example sentences last. */
+export function search<T extends SearchDocument>(index: PreparedIndex<T>, query: string): SearchHit<T>[] {
+  const q = normalizeAnswer(query);
+  if (!q) return [];
+  const hits: SearchHit<T>[] = [];
+  for (const doc of index.docs) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const [field, value, key] of doc.keys) {
+      const s = scoreField(q, field, key);
+      if (s > 0) {
+        score = Math.max(score, s);
+        if (FUZZY_FIELDS.includes(field)) matched.push(value);
+        // A reading or romaji hit is a hit on the word itself
+        const headword = doc.entry.fields.japanese;
+        if ((field === 'reading' || field === 'romaji') && headword) matched.push(headword);
+      }
+    }
+    if (score > 0) hits.push({ entry: doc.entry, score, matched });
+  }
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Splits `text` into highlighted and plain runs. The query is tried as typed
+ * and in both kana scripts; whole matched field values are highlighted too,
+ * which covers romaji queries matching a kanji headword.
+ */
+export function highlight(text: string, query: string, matched: string[] = []): HighlightSegment[] {
+  const typed = query.trim().toLowerCase();
+  const kana = katakanaToHiragana(romajiToHiragana(typed));
+  // Half-typed romaji ("tab" → "たb") has no kana form worth looking for
+  const kanaForms = /[a-z]/.test(kana) ? [] : [kana, hiraganaToKatakana(kana)];
+  const terms = [...new Set([typed, ...kanaForms, ...matched.map((m) => m.toLowerCase())])]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length);
+
+  const lower = text.toLowerCase();
+  const marks = new Array(text.length).fill(false);
+  for (const term of terms) {
+    for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+      marks.fill(true, at, at + term.length);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marks[i]) last.text += text[i];
+    else segments.push({ text: text[i], match: marks[i] });
+  }
+  return segments;
+}
+
+/** Up to `max` characters of `text` around its first match, highlighted. */
+export function excerpt(text: string, query: string, matched: string[] = [], max = 60): HighlightSegment[] {
+  const segments = highlight(text, query, matched);
+  if (text.length <= max) return segments;
+  let first = 0;
+  for (const segment of segments) {
+    if (segment.match) break;
+    first += segment.text.length;
+  }
+  // Keep a little context before the match when it would fall off the end
+  const start = first === text.length || first < max - 20 ? 0 : first - 20;
+  const window = `${start > 0 ? '...' : ''}${text.slice(start, start + max)}${start + max < text.length ? '...' : ''}`;
+  return highlight(window, query, matched);
+}
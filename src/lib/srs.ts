@@ -0,0 +1,103 @@
+import { readJSON, writeJSON } from './storage';
+
+// SM-2 style scheduler (the Anki flavour with four grades).
+// Intervals are stored in days; `due` and `lastReview` are epoch milliseconds.
+
+export type Grade = 'again' | 'hard' | 'good' | 'easy';
+
+export const GRADES: Grade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface CardState {
+  ease: number;
+  interval: number;
+  reps: number;
+  lapses: number;
+  due: number;
+  lastReview: number;
+}
+
+interface SrsStore {
+  version: 1;
+  cards: Record<string, CardState>;
+}
+
+const STORAGE_KEY = 'jlearn-srs';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+export function cardId(chapterId: number, unitId: string, japanese: string): string {
+  return `ch${chapterId}/${unitId}/${japanese}`;
+}
+
+export function schedule(prev: CardState | undefined, grade: Grade, now = Date.now()): CardState {
+  const ease = prev?.ease ?? INITIAL_EASE;
+  const interval = prev?.interval ?? 0;
+  const reps = prev?.reps ?? 0;
+  const lapses = prev?.lapses ?? 0;
+
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      reps: 0,
+      lapses: reps > 0 ? lapses + 1 : lapses,
+      due: now + RELEARN_MS,
+      lastReview: now,
+    };
+  }
+
+  let nextInterval: number;
+  let nextEase = ease;
+  if (grade === 'hard') {
+    nextInterval = reps === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+    nextEase = Math.max(MIN_EASE, ease - 0.15);
+  } else if (grade === 'good') {
+    nextInterval = reps === 0 ? 1 : reps === 1 ? 6 : Math.round(interval * ease);
+  } else {
+    nextInterval = reps === 0 ? 4 : Math.round(Math.max(interval, 1) * ease * 1.3);
+    nextEase = ease + 0.15;
+  }
+
+  return {
+    ease: nextEase,
+    interval: nextInterval,
+    reps: reps + 1,
+    lapses,
+    due: now + nextInterval * DAY_MS,
+    lastReview: now,
+  };
+}
+
+export function isDue(state: CardState | undefined, now = Date.now()): boolean {
+  return !state || state.due <= now;
+}
+
+export function formatInterval(state: CardState, now = Date.now()): string {
+  const ms = state.due - now;
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))} 分鐘`;
+  if (ms < DAY_MS) return `${Math.round(ms / (60 * 60 * 1000))} 小時`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days} 天`;
+  if (days < 365) return `${Math.round(days / 30)} 個月`;
+  return `${(days / 365).toFixed(1)} 年`;
+}
+
+export function loadDeck(): Record<string, CardState> {
+  const store = readJSON<SrsStore | null>(STORAGE_KEY, null);
+  return store?.version === 1 ? store.cards : {};
+}
+
+export function saveDeck(cards: Record<string, CardState>): boolean {
+  const store: SrsStore = { version: 1, cards };
+  return writeJSON(STORAGE_KEY, store);
+}
+
+export function gradeCard(id: string, grade: Grade, now = Date.now()): CardState {
+  const cards = loadDeck();
+  const next = schedule(cards[id], grade, now);
+  cards[id] = next;
+  saveDeck(cards);
+  return next;
+}
@@ -0,0 +1,27 @@
+export function readJSON<T>(key: string, fallback: T): T {
+  if (typeof localStorage === 'undefined') return fallback;
+  const raw = localStorage.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    console.warn(`[jlearn] Ignoring unreadable localStorage entry "${key}"`, err);
+    return fallback;
+  }
+}
+
+export function writeJSON(key: string, value: unknown): boolean {
+  if (typeof localStorage === 'undefined') return false;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    // Quota exceeded or storage disabled (e.g. private browsing)
+    console.warn(`[jlearn] Could not write localStorage entry "${key}"`, err);
+    return false;
+  }
+}
+
+// Shape guards for values read back from storage or a backup file
+export const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+export const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
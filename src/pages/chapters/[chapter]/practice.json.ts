@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+import { course } from '../../../data/course';
+import type { CourseChapter } from '../../../data/course';
+import { collectPracticeSource } from '../../../lib/practice';
+
+// The chapter's distractor pool for extra practice. Fetched when a round
+// starts rather than inlined into every unit page of the chapter.
+export function getStaticPaths() {
+  return course.map((chapter) => ({ params: { chapter: String(chapter.id) }, props: { chapter } }));
+}
+
+export const GET: APIRoute<{ chapter: CourseChapter }> = ({ props }) =>
+  new Response(JSON.stringify(collectPracticeSource(props.chapter.units.map((u) => u.data))), {
+    headers: { 'Content-Type': 'application/json' },
+  });
@@ -0,0 +1,21 @@
+import type { APIRoute } from 'astro';
+
+// Web app manifest, generated so paths follow the configured base
+export const GET: APIRoute = () => {
+  const base = import.meta.env.BASE_URL;
+  const manifest = {
+    name: '日本旅遊日語 | JLearn',
+    short_name: 'JLearn',
+    description: '從零開始學旅遊日語，離線也能在電車上複習',
+    lang: 'zh-Hant',
+    start_url: base,
+    scope: base,
+    display: 'standalone',
+    background_color: '#FEFCFB',
+    theme_color: '#5BA87A',
+    icons: [{ src: `${base}favicon.svg`, sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+  };
+  return new Response(JSON.stringify(manifest), {
+    headers: { 'Content-Type': 'application/manifest+json' },
+  });
+};
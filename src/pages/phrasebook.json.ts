@@ -0,0 +1,20 @@
+import type { APIRoute } from 'astro';
+import { buildPhrasebook } from '../data/buildPhrasebook';
+import { anchorHref } from '../lib/anchors';
+
+// Fetched by the phrasebook page rather than inlined as island props, which
+// would more than double its size.
+export const GET: APIRoute = () => {
+  const base = import.meta.env.BASE_URL;
+  const phrases = buildPhrasebook().map(({ id, japanese, chinese, situation, chapterId, unitId, anchor, audio }) => ({
+    id,
+    japanese,
+    chinese,
+    situation,
+    href: anchorHref(`${base}chapters/${chapterId}/${unitId}`, anchor),
+    ...(audio && { audio }),
+  }));
+  return new Response(JSON.stringify(phrases), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,9 @@
+import type { APIRoute } from 'astro';
+import { buildReviewDeck } from '../data/buildReviewDeck';
+
+// Fetched by the review page on load; inlined as island props, the whole
+// course's vocabulary made the page several hundred kilobytes.
+export const GET: APIRoute = () =>
+  new Response(JSON.stringify(buildReviewDeck()), {
+    headers: { 'Content-Type': 'application/json' },
+  });
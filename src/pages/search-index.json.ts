@@ -0,0 +1,9 @@
+import type { APIRoute } from 'astro';
+import { buildSearchIndex, packSearchIndex } from '../data/buildSearchIndex';
+
+// Emitted as a static asset at build time; the search modal fetches it the
+// first time it opens, so pages don't carry the index in their HTML.
+export const GET: APIRoute = () =>
+  new Response(JSON.stringify(packSearchIndex(buildSearchIndex())), {
+    headers: { 'Content-Type': 'application/json' },
+  });
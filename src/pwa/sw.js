@@ -0,0 +1,137 @@
+// Service worker template. src/integrations/serviceWorker.ts writes it to
+// dist/sw.js with the placeholder below replaced by this build's file list,
+// so every deploy produces a new worker and a fresh precache.
+//
+// Pages and the search index: network first, cached copy when offline.
+// Hashed build assets, fonts and audio: cache first.
+
+const { version, base, urls, audioCache, precachePrefix } = __PRECACHE__;
+
+const CACHE = `${precachePrefix}${version}`;
+const FONT_CACHE = 'jlearn-fonts';
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(urls))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith(precachePrefix) && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages are cached under their directory URL; links omit the trailing slash
+function cacheKey(href) {
+  const url = new URL(href, self.location.href);
+  url.search = '';
+  url.hash = '';
+  if (!url.pathname.endsWith('/') && !/\.[a-z0-9]+$/i.test(url.pathname)) url.pathname += '/';
+  return url.href;
+}
+
+// Navigations can't be answered with a response that was itself redirected
+async function unredirected(response) {
+  if (!response.redirected) return response;
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+const isAudio = (url) => url.pathname.startsWith(`${base}audio/`);
+
+function offlinePage() {
+  return new Response(
+    '<!DOCTYPE html><html lang="zh-Hant"><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0">' +
+      `<title>離線中 | JLearn</title><body style="font-family:sans-serif;text-align:center;padding:4rem 1rem;color:#3D3229">` +
+      `<p style="font-size:2rem">🌸</p><p>目前沒有網路，這一頁還沒有下載到這台裝置。</p><p><a href="${base}" style="color:#5BA87A">回到首頁</a></p>`,
+    { status: 503, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+  );
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE);
+  const key = cacheKey(request.url);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(key, await unredirected(response.clone()));
+    return response;
+  } catch {
+    const cached = await caches.match(key);
+    if (cached) return cached;
+    return request.mode === 'navigate' ? offlinePage() : Response.error();
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request.url);
+  if (cached) return cached;
+  let response;
+  try {
+    response = await fetch(request);
+  } catch {
+    return Response.error();
+  }
+  // Only whole responses can be stored: <audio> asks for byte ranges and gets
+  // 206s, which cache.put rejects. Opaque (cross-origin font) responses report
+  // status 0 but are still usable.
+  if (response.status === 200 || response.type === 'opaque') {
+    try {
+      const cache = await caches.open(cacheName);
+      await cache.put(request.url, response.clone());
+    } catch (err) {
+      // Quota exceeded, say; the page still gets its response
+      console.warn(`[jlearn] Could not cache ${request.url}`, err);
+    }
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (FONT_HOSTS.includes(url.host)) {
+    event.respondWith(cacheFirst(request, FONT_CACHE));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith(base)) {
+    if (isAudio(url)) event.respondWith(cacheFirst(request, audioCache));
+    else if (url.pathname.startsWith(`${base}_astro/`)) event.respondWith(cacheFirst(request, CACHE));
+    else event.respondWith(networkFirst(request));
+  }
+});
+
+// "Download for offline" on a chapter page: { type: 'cache-urls', urls } with
+// a MessagePort that receives progress and a final count of failures.
+async function cacheUrls(list, port) {
+  let done = 0;
+  let failed = 0;
+  for (const href of list) {
+    try {
+      const response = await fetch(href);
+      if (!response.ok) throw new Error(`${response.status} ${href}`);
+      const cache = await caches.open(isAudio(new URL(href, self.location.href)) ? audioCache : CACHE);
+      await cache.put(cacheKey(href), await unredirected(response));
+    } catch {
+      failed++;
+    }
+    port.postMessage({ type: 'progress', done: ++done, total: list.length });
+  }
+  port.postMessage({ type: 'done', done, total: list.length, failed });
+}
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'cache-urls' && event.ports[0]) {
+    event.waitUntil(cacheUrls(event.data.urls, event.ports[0]));
+  }
+});